@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { validateSessionToken, validateOrigin, createAuthenticatedResponse } from '@/app/lib/auth';
-import { validateGameAction } from '@/app/lib/game-session';
+import { getSessionPlayers, validateGameAction } from '@/app/lib/game-session';
 import { rateLimit } from '@/app/lib/rate-limiter';
 
+// Clients send everything reported while their previous request was in flight in one batch
+const MAX_ACTIONS_PER_REQUEST = 60;
+
 export async function POST(request: NextRequest) {
   try {
     // Security checks
@@ -10,44 +13,52 @@ export async function POST(request: NextRequest) {
       return createAuthenticatedResponse({ error: 'Forbidden: Invalid origin' }, 403);
     }
 
-    // Rate limiting - prevent action spam
-    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
-    const rateLimitResult = rateLimit(clientIp, { maxRequests: 100, windowMs: 60000 }); // 100 actions per minute
-    
-    if (!rateLimitResult.allowed) {
-      return createAuthenticatedResponse({
-        error: 'Too many action requests',
-        resetTime: rateLimitResult.resetTime
-      }, 429);
-    }
-
-    const { playerAddress, sessionToken, gameSessionId, action } = await request.json();
+    const { playerAddress, sessionToken, gameSessionId, actions } = await request.json();
 
     // Validate session token
     if (!sessionToken || !validateSessionToken(sessionToken, playerAddress)) {
       return createAuthenticatedResponse({ error: 'Unauthorized: Invalid session token' }, 401);
     }
 
-    if (!playerAddress || !gameSessionId || !action) {
+    if (!playerAddress || !gameSessionId || !Array.isArray(actions) || actions.length === 0) {
       return createAuthenticatedResponse({ 
-        error: 'Missing required fields: playerAddress, gameSessionId, action' 
+        error: 'Missing required fields: playerAddress, gameSessionId, actions' 
       }, 400);
     }
 
-    // Validate the game action
-    const validation = validateGameAction(gameSessionId, playerAddress, action);
+    // Rate limiting - prevent action spam. Every ship in a co-op run reports its own actions,
+    // so the limit only scales with a session the caller owns
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+    const players = getSessionPlayers(gameSessionId, playerAddress);
+    const rateLimitResult = rateLimit(`game-action:${clientIp}`, { maxRequests: 900 * players, windowMs: 60000 }); // 900 batches per minute per ship
     
-    if (!validation.valid) {
-      return createAuthenticatedResponse({ 
-        error: validation.error,
-        suspicious: true // Mark as potentially malicious behavior
-      }, 400);
+    if (!rateLimitResult.allowed) {
+      return createAuthenticatedResponse({
+        error: 'Too many action requests',
+        resetTime: rateLimitResult.resetTime
+      }, 429);
+    }
+
+    if (actions.length > MAX_ACTIONS_PER_REQUEST * players) {
+      return createAuthenticatedResponse({ error: 'Too many actions in one request' }, 400);
     }
 
+    // Validate the game actions in the order they happened; a rejected one doesn't stop the rest
+    let currentScore = 0;
+    const results = actions.map(action => {
+      const validation = validateGameAction(gameSessionId, playerAddress, action);
+      if (!validation.valid) {
+        return { valid: false, error: validation.error, suspicious: true }; // Mark as potentially malicious behavior
+      }
+      currentScore = validation.session?.score || 0;
+      return { valid: true };
+    });
+
     return createAuthenticatedResponse({
       success: true,
-      currentScore: validation.session?.score || 0,
-      message: 'Action validated successfully'
+      currentScore,
+      results,
+      message: 'Actions validated'
     });
 
   } catch (error) {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { validateSessionToken, validateOrigin, createAuthenticatedResponse } from '@/app/lib/auth';
-import { endGameSession, getSessionStats } from '@/app/lib/game-session';
+import { endGameSession, getSessionStats, getVersusOutcome, hasCheatingEvidence } from '@/app/lib/game-session';
+import { getDailyRank } from '@/app/lib/daily-challenge';
+import { recordAchievements } from '@/app/lib/achievements';
 import { rateLimit } from '@/app/lib/rate-limiter';
 
 export async function POST(request: NextRequest) {
@@ -12,7 +14,7 @@ export async function POST(request: NextRequest) {
 
     // Rate limiting
     const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
-    const rateLimitResult = rateLimit(clientIp, { maxRequests: 10, windowMs: 60000 }); // 10 session ends per minute
+    const rateLimitResult = rateLimit(`game-end:${clientIp}`, { maxRequests: 10, windowMs: 60000 }); // 10 session ends per minute
     
     if (!rateLimitResult.allowed) {
       return createAuthenticatedResponse({
@@ -21,7 +23,7 @@ export async function POST(request: NextRequest) {
       }, 429);
     }
 
-    const { playerAddress, sessionToken, gameSessionId } = await request.json();
+    const { playerAddress, sessionToken, gameSessionId, recording } = await request.json();
 
     // Validate session token
     if (!sessionToken || !validateSessionToken(sessionToken, playerAddress)) {
@@ -34,8 +36,8 @@ export async function POST(request: NextRequest) {
       }, 400);
     }
 
-    // End the game session
-    const result = endGameSession(gameSessionId, playerAddress);
+    // End the game session, re-simulating the recorded run to get the final score
+    const result = endGameSession(gameSessionId, playerAddress, recording);
     
     if (!result.valid) {
       return createAuthenticatedResponse({ error: result.error }, 400);
@@ -43,11 +45,20 @@ export async function POST(request: NextRequest) {
 
     // Get final session stats
     const stats = getSessionStats(gameSessionId);
+    const dailyRank = stats?.daily?.ranked ? getDailyRank(stats.daily.date, playerAddress) : null;
+    // The opponent may still be playing, in which case the outcome is pending
+    const versus = stats?.versus ? getVersusOutcome(stats.versus) : null;
+    // Only a clean run counts towards achievements
+    const achievements = stats && !hasCheatingEvidence(gameSessionId) ? recordAchievements(playerAddress, stats) : [];
 
     return createAuthenticatedResponse({
       success: true,
       finalScore: result.finalScore,
+      spawnSeed: result.spawnSeed,
       stats,
+      dailyRank,
+      versus,
+      achievements,
       message: 'Game session ended successfully'
     });
 
@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { validateSessionToken, validateOrigin, createAuthenticatedResponse } from '@/app/lib/auth';
+import { getSessionSpawns } from '@/app/lib/game-session';
+import { rateLimit } from '@/app/lib/rate-limiter';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Security checks
+    if (!validateOrigin(request)) {
+      return createAuthenticatedResponse({ error: 'Forbidden: Invalid origin' }, 403);
+    }
+
+    // Rate limiting - clients top up spawns every few seconds
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+    const rateLimitResult = rateLimit(`game-spawns:${clientIp}`, { maxRequests: 60, windowMs: 60000 }); // 60 spawn requests per minute
+    
+    if (!rateLimitResult.allowed) {
+      return createAuthenticatedResponse({
+        error: 'Too many spawn requests',
+        resetTime: rateLimitResult.resetTime
+      }, 429);
+    }
+
+    const { playerAddress, sessionToken, gameSessionId, fromTick } = await request.json();
+
+    // Validate session token
+    if (!sessionToken || !validateSessionToken(sessionToken, playerAddress)) {
+      return createAuthenticatedResponse({ error: 'Unauthorized: Invalid session token' }, 401);
+    }
+
+    if (!playerAddress || !gameSessionId || !Number.isInteger(fromTick)) {
+      return createAuthenticatedResponse({ 
+        error: 'Missing required fields: playerAddress, gameSessionId, fromTick' 
+      }, 400);
+    }
+
+    const result = getSessionSpawns(gameSessionId, playerAddress, fromTick);
+    
+    if (!result.valid) {
+      return createAuthenticatedResponse({ error: result.error }, 400);
+    }
+
+    return createAuthenticatedResponse({
+      success: true,
+      spawns: result.spawns,
+      spawnHorizon: result.spawnHorizon
+    });
+
+  } catch (error) {
+    console.error('Error handing out spawns:', error);
+    return createAuthenticatedResponse(
+      { error: 'Failed to get spawns' },
+      500
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { validateSessionToken, validateOrigin, createAuthenticatedResponse } from '@/app/lib/auth';
-import { createGameSession } from '@/app/lib/game-session';
+import { createGameSession, joinVersusMatch } from '@/app/lib/game-session';
+import { DEFAULT_DIFFICULTY, isDifficulty } from '@/app/lib/game/difficulty';
+import { MAX_PLAYERS } from '@/app/lib/game/constants';
+import { verifyMatchToken } from '@/app/lib/versus';
 import { rateLimit } from '@/app/lib/rate-limiter';
 
 export async function POST(request: NextRequest) {
@@ -12,7 +15,7 @@ export async function POST(request: NextRequest) {
 
     // Rate limiting - prevent session spam
     const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
-    const rateLimitResult = rateLimit(clientIp, { maxRequests: 5, windowMs: 60000 }); // 5 sessions per minute
+    const rateLimitResult = rateLimit(`game-start:${clientIp}`, { maxRequests: 5, windowMs: 60000 }); // 5 sessions per minute
     
     if (!rateLimitResult.allowed) {
       return createAuthenticatedResponse({
@@ -21,7 +24,7 @@ export async function POST(request: NextRequest) {
       }, 429);
     }
 
-    const { playerAddress, sessionToken } = await request.json();
+    const { playerAddress, sessionToken, difficulty = DEFAULT_DIFFICULTY, daily = false, players = 1, matchToken } = await request.json();
 
     // Validate session token
     if (!sessionToken || !validateSessionToken(sessionToken, playerAddress)) {
@@ -32,12 +35,56 @@ export async function POST(request: NextRequest) {
       return createAuthenticatedResponse({ error: 'Player address is required' }, 400);
     }
 
-    // Create new game session
-    const gameSessionId = createGameSession(playerAddress);
+    if (!isDifficulty(difficulty)) {
+      return createAuthenticatedResponse({ error: 'Invalid difficulty' }, 400);
+    }
+
+    if (typeof daily !== 'boolean') {
+      return createAuthenticatedResponse({ error: 'Invalid daily flag' }, 400);
+    }
+
+    if (!Number.isInteger(players) || players < 1 || players > MAX_PLAYERS) {
+      return createAuthenticatedResponse({ error: 'Invalid number of players' }, 400);
+    }
+
+    // Everyone plays the daily challenge alone so its leaderboard compares like with like
+    if (daily && players > 1) {
+      return createAuthenticatedResponse({ error: 'The daily challenge is single player only' }, 400);
+    }
+
+    // Versus runs take their seeds and mode from the match the relay paired the player into
+    let session: ReturnType<typeof createGameSession>;
+    if (matchToken !== undefined) {
+      if (daily || players > 1) {
+        return createAuthenticatedResponse({ error: 'Versus runs are single player free play only' }, 400);
+      }
+
+      const match = verifyMatchToken(matchToken);
+      if (!match.valid || !match.pairing) {
+        return createAuthenticatedResponse({ error: match.error }, 400);
+      }
+
+      const joined = joinVersusMatch(playerAddress, match.pairing);
+      if (!joined.valid || !joined.session) {
+        return createAuthenticatedResponse({ error: joined.error }, 400);
+      }
+      session = joined.session;
+    } else {
+      // Create new game session; the mode is fixed for the whole run, and daily runs get the day's spawns
+      session = createGameSession(playerAddress, difficulty, daily, players);
+    }
+
+    const { sessionId: gameSessionId, spawns, spawnHorizon } = session;
 
     return createAuthenticatedResponse({
       success: true,
       gameSessionId,
+      difficulty: session.difficulty,
+      daily: session.daily,
+      players: session.players,
+      versus: session.versus,
+      spawns,
+      spawnHorizon,
       message: 'Game session started successfully'
     });
 
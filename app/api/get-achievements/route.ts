@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidAddress } from '@/app/lib/blockchain';
+import { getAchievements } from '@/app/lib/achievements';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const playerAddress = searchParams.get('address');
+
+    if (!playerAddress) {
+      return NextResponse.json(
+        { error: 'Player address is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidAddress(playerAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid player address format' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      playerAddress,
+      achievements: getAchievements(playerAddress),
+    });
+
+  } catch (error) {
+    console.error('Error getting achievements:', error);
+    return NextResponse.json(
+      { error: 'Failed to get achievements' },
+      { status: 500 }
+    );
+  }
+}
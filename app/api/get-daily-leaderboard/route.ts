@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidAddress } from '@/app/lib/blockchain';
+import { getChallengeDate, getDailyLeaderboard, hasRankedAttempt, isChallengeDate } from '@/app/lib/daily-challenge';
+
+const LEADERBOARD_LIMIT = 20;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Defaults to today's challenge; an address also reports that player's standing
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date') || getChallengeDate();
+    const playerAddress = searchParams.get('address');
+
+    if (!isChallengeDate(date)) {
+      return NextResponse.json(
+        { error: 'Invalid date format, expected YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    if (playerAddress && !isValidAddress(playerAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid player address format' },
+        { status: 400 }
+      );
+    }
+
+    const leaderboard = getDailyLeaderboard(date);
+    const playerKey = playerAddress?.toLowerCase();
+    const playerEntry = playerKey
+      ? leaderboard.find(entry => entry.playerAddress.toLowerCase() === playerKey) ?? null
+      : null;
+
+    return NextResponse.json({
+      success: true,
+      date,
+      entries: leaderboard.slice(0, LEADERBOARD_LIMIT),
+      totalPlayers: leaderboard.length,
+      attempted: playerAddress ? hasRankedAttempt(date, playerAddress) : false,
+      playerEntry,
+    });
+
+  } catch (error) {
+    console.error('Error getting daily leaderboard:', error);
+    return NextResponse.json(
+      { error: 'Failed to get daily leaderboard' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTransactionStatus } from '@/app/lib/blockchain';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Get transaction hash from URL search params
+    const { searchParams } = new URL(request.url);
+    const transactionHash = searchParams.get('hash');
+
+    if (!transactionHash) {
+      return NextResponse.json(
+        { error: 'Transaction hash is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^0x[a-fA-F0-9]{64}$/.test(transactionHash)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction hash format' },
+        { status: 400 }
+      );
+    }
+
+    const status = await getTransactionStatus(transactionHash);
+
+    return NextResponse.json({
+      success: true,
+      transactionHash,
+      status
+    });
+
+  } catch (error) {
+    console.error('Error getting transaction status:', error);
+    return NextResponse.json(
+      { error: 'Failed to get transaction status' },
+      { status: 500 }
+    );
+  }
+}
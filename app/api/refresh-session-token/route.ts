@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateSessionToken, validateOrigin, validateSessionToken } from '@/app/lib/auth';
+import { hasActiveGameSession } from '@/app/lib/game-session';
+import { rateLimit } from '@/app/lib/rate-limiter';
+
+// Runs last longer than a session token, so a still-valid token can be renewed without
+// another wallet signature as long as the player has a game session open
+export async function POST(request: NextRequest) {
+  try {
+    if (!validateOrigin(request)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Invalid origin' },
+        { status: 403 }
+      );
+    }
+
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+    const rateLimitResult = rateLimit(`token-refresh:${clientIp}`, { maxRequests: 10, windowMs: 60000 });
+
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many token refresh requests', resetTime: rateLimitResult.resetTime },
+        { status: 429 }
+      );
+    }
+
+    const { playerAddress, sessionToken } = await request.json();
+
+    if (!playerAddress || !sessionToken || !validateSessionToken(sessionToken, playerAddress)) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Invalid session token' },
+        { status: 401 }
+      );
+    }
+
+    if (!hasActiveGameSession(playerAddress)) {
+      return NextResponse.json(
+        { error: 'No active game session' },
+        { status: 400 }
+      );
+    }
+
+    const timestamp = Math.floor(Date.now() / 30000) * 30000; // Round to 30-second intervals
+    return NextResponse.json({
+      success: true,
+      sessionToken: generateSessionToken(playerAddress, timestamp),
+      expiresAt: timestamp + 300000, // 5 minutes from token timestamp
+    });
+
+  } catch (error) {
+    console.error('Error refreshing session token:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh session token' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,13 +2,26 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createWalletClient, http } from 'viem';
 import { monadTestnet } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
-import { CONTRACT_ADDRESS, CONTRACT_ABI, isValidAddress } from '@/app/lib/blockchain';
+import { CONTRACT_ADDRESS, CONTRACT_ABI, getTransactionStatus, isValidAddress, publicClient } from '@/app/lib/blockchain';
 import { validateSessionToken, validateOrigin, createAuthenticatedResponse } from '@/app/lib/auth';
 import { rateLimit } from '@/app/lib/rate-limiter';
-import { generateRequestId, isDuplicateRequest, markRequestProcessing, markRequestComplete } from '@/app/lib/request-deduplication';
-import { getGameSession } from '@/app/lib/game-session';
+import {
+  getGameSession,
+  claimSessionSubmission,
+  completeSessionSubmission,
+  confirmSessionSubmission,
+  recordSubmissionTransaction,
+  releaseSessionSubmission,
+  reopenSessionSubmission,
+} from '@/app/lib/game-session';
+
+// How long to wait for the transaction to be mined before answering; a retry checks it again
+const RECEIPT_TIMEOUT_MS = 15 * 1000;
 
 export async function POST(request: NextRequest) {
+  // Session claimed for submission, released again if the write fails before a transaction is sent
+  let claimed: { sessionId: string; claimId: number } | null = null;
+
   try {
     // Security checks - Origin validation first
     if (!validateOrigin(request)) {
@@ -17,7 +30,7 @@ export async function POST(request: NextRequest) {
 
     // Rate limiting
     const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
-    const rateLimitResult = rateLimit(clientIp, { maxRequests: 10, windowMs: 60000 }); // 10 requests per minute
+    const rateLimitResult = rateLimit(`update-player-data:${clientIp}`, { maxRequests: 10, windowMs: 60000 }); // 10 requests per minute
     
     if (!rateLimitResult.allowed) {
       return createAuthenticatedResponse({
@@ -73,26 +86,52 @@ export async function POST(request: NextRequest) {
         400
       );
     }
-    
-    // Use server-validated scores from the game session
-    const scoreAmount = gameSession.score;
-    const transactionAmount = 1; // One transaction per completed game
 
-    // Request deduplication based on game session ID
-    const requestId = generateRequestId(playerAddress, scoreAmount, gameSessionId);
-    if (isDuplicateRequest(requestId)) {
+    // Claim the session for submission; each session is credited on-chain at most once
+    let claim = claimSessionSubmission(gameSessionId);
+
+    if (claim.transactionHash) {
+      // A reverted transaction credited nothing, so the session is submitted again
+      const status = await getTransactionStatus(claim.transactionHash).catch(() => 'pending' as const);
+
+      if (status === 'confirmed') {
+        confirmSessionSubmission(gameSessionId, claim.transactionHash);
+      }
+
+      // Otherwise reply with the original transaction instead of writing again, even while it is
+      // still waiting to be mined
+      if (status !== 'failed') {
+        return createAuthenticatedResponse({
+          success: true,
+          transactionHash: claim.transactionHash,
+          alreadySubmitted: true,
+          message: 'Game session was already submitted'
+        });
+      }
+
+      reopenSessionSubmission(gameSessionId, claim.transactionHash);
+      claim = claimSessionSubmission(gameSessionId);
+    }
+
+    if (!claim.claimed || claim.claimId === undefined) {
       return createAuthenticatedResponse(
-        { error: 'Duplicate request detected. Please wait before retrying.' },
+        { error: 'Submission already in progress for this game session' },
         409
       );
     }
 
-    markRequestProcessing(requestId);
+    claimed = { sessionId: gameSessionId, claimId: claim.claimId };
+
+    // Use server-validated scores from the game session. A co-op partner has no wallet of
+    // their own, so the whole team score goes to the host who started the session.
+    const scoreAmount = gameSession.score;
+    const transactionAmount = 1; // One transaction per completed game
 
     // Get private key from environment variable
     const privateKey = process.env.WALLET_PRIVATE_KEY;
     if (!privateKey) {
       console.error('WALLET_PRIVATE_KEY environment variable not set');
+      releaseSessionSubmission(gameSessionId, claim.claimId);
       return NextResponse.json(
         { error: 'Server configuration error' },
         { status: 500 }
@@ -121,7 +160,34 @@ export async function POST(request: NextRequest) {
       ]
     });
 
-    markRequestComplete(requestId);
+    // From here the transaction may be mined, so the claim is only given up once it has reverted
+    recordSubmissionTransaction(gameSessionId, claim.claimId, hash);
+    claimed = null;
+
+    // Wait for the transaction to be mined; if it reverts the session is left unsubmitted. One
+    // still pending when the wait runs out stays in flight until a retry finds out how it went.
+    const receipt = await publicClient
+      .waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS })
+      .catch(() => null);
+
+    if (receipt?.status === 'reverted') {
+      reopenSessionSubmission(gameSessionId, hash);
+      return createAuthenticatedResponse(
+        { error: 'Transaction reverted', transactionHash: hash },
+        400
+      );
+    }
+
+    if (!receipt) {
+      return createAuthenticatedResponse({
+        success: true,
+        transactionHash: hash,
+        pending: true,
+        message: 'Transaction sent; waiting for it to be mined'
+      });
+    }
+
+    completeSessionSubmission(gameSessionId, claim.claimId, hash);
 
     return createAuthenticatedResponse({
       success: true,
@@ -131,6 +197,10 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Error updating player data:', error);
+
+    if (claimed) {
+      releaseSessionSubmission(claimed.sessionId, claimed.claimId);
+    }
     
     // Handle specific viem errors
     if (error instanceof Error) {
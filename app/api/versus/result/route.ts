@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getVersusOutcome } from '@/app/lib/game-session';
+
+// How a versus match stands; players poll this after their run until the winner is decided
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const matchId = searchParams.get('matchId');
+
+    if (!matchId) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: matchId' },
+        { status: 400 }
+      );
+    }
+
+    const outcome = getVersusOutcome(matchId);
+    if (!outcome) {
+      return NextResponse.json(
+        { error: 'Unknown match' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...outcome });
+
+  } catch (error) {
+    console.error('Error getting versus result:', error);
+    return NextResponse.json(
+      { error: 'Failed to get versus result' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+import { validateSessionToken, validateOrigin, createAuthenticatedResponse } from '@/app/lib/auth';
+import { DEFAULT_DIFFICULTY, isDifficulty } from '@/app/lib/game/difficulty';
+import { createVersusTicket } from '@/app/lib/versus';
+import { rateLimit } from '@/app/lib/rate-limiter';
+
+// Issue a ticket for joining the versus matchmaking queue on the relay
+export async function POST(request: NextRequest) {
+  try {
+    if (!validateOrigin(request)) {
+      return createAuthenticatedResponse({ error: 'Forbidden: Invalid origin' }, 403);
+    }
+
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+    const rateLimitResult = rateLimit(`versus-ticket:${clientIp}`, { maxRequests: 10, windowMs: 60000 }); // 10 tickets per minute
+
+    if (!rateLimitResult.allowed) {
+      return createAuthenticatedResponse({
+        error: 'Too many ticket requests',
+        resetTime: rateLimitResult.resetTime
+      }, 429);
+    }
+
+    const { playerAddress, sessionToken, difficulty = DEFAULT_DIFFICULTY } = await request.json();
+
+    if (!sessionToken || !validateSessionToken(sessionToken, playerAddress)) {
+      return createAuthenticatedResponse({ error: 'Unauthorized: Invalid session token' }, 401);
+    }
+
+    if (!playerAddress) {
+      return createAuthenticatedResponse({ error: 'Player address is required' }, 400);
+    }
+
+    if (!isDifficulty(difficulty)) {
+      return createAuthenticatedResponse({ error: 'Invalid difficulty' }, 400);
+    }
+
+    return createAuthenticatedResponse({
+      success: true,
+      ticket: createVersusTicket(playerAddress, difficulty),
+    });
+
+  } catch (error) {
+    console.error('Error issuing versus ticket:', error);
+    return createAuthenticatedResponse(
+      { error: 'Failed to issue versus ticket' },
+      500
+    );
+  }
+}
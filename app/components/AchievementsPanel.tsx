@@ -0,0 +1,38 @@
+"use client";
+import type { AchievementStatus } from '../lib/achievements';
+
+interface AchievementsPanelProps {
+  achievements: AchievementStatus[] | null;
+}
+
+export default function AchievementsPanel({ achievements }: AchievementsPanelProps) {
+  if (!achievements) {
+    return null;
+  }
+
+  const unlockedCount = achievements.filter(achievement => achievement.unlockedAt !== null).length;
+
+  return (
+    <div className="w-full max-w-md bg-gray-900 text-white p-3 rounded-lg border border-gray-700 text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-sm">Achievements</h3>
+        <span className="text-gray-400">{unlockedCount}/{achievements.length} unlocked</span>
+      </div>
+      <div className="space-y-1">
+        {achievements.map(achievement => (
+          <div
+            key={achievement.id}
+            className={`flex items-center justify-between gap-2 ${achievement.unlockedAt !== null ? '' : 'opacity-50'}`}
+          >
+            <span className="w-4">{achievement.unlockedAt !== null ? '🏅' : '🔒'}</span>
+            <span className="font-bold">{achievement.name}</span>
+            <span className="flex-1 text-gray-300">{achievement.description}</span>
+            {achievement.unlockedAt !== null && (
+              <span className="text-gray-400">{new Date(achievement.unlockedAt).toLocaleDateString()}</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+import { AudioSettings, VOLUME_CHANNELS, VOLUME_LABELS } from '../lib/audio/audio-settings';
+
+interface AudioPanelProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+}
+
+export default function AudioPanel({ settings, onChange }: AudioPanelProps) {
+  return (
+    <div className="w-full max-w-md bg-gray-900 text-white p-3 rounded-lg border border-gray-700 text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-sm">Sound</h3>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <span>Mute</span>
+          <input
+            type="checkbox"
+            checked={settings.muted}
+            onChange={e => onChange({ ...settings, muted: e.target.checked })}
+          />
+        </label>
+      </div>
+      <div className="space-y-1">
+        {VOLUME_CHANNELS.map(channel => (
+          <label key={channel} className="flex items-center justify-between gap-2">
+            <span>{VOLUME_LABELS[channel]}</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(settings.volumes[channel] * 100)}
+              disabled={settings.muted}
+              onChange={e => onChange({
+                ...settings,
+                volumes: { ...settings.volumes, [channel]: Number(e.target.value) / 100 },
+              })}
+              className="w-40"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
   usePrivy,
+  useCrossAppAccounts,
   CrossAppAccountWithMetadata,
 } from "@privy-io/react-auth";
 import { useMonadGamesUser } from "../hooks/useMonadGamesUser";
@@ -15,9 +16,17 @@ function AuthNotConfigured() {
   );
 }
 
+type SignMessage = (message: string) => Promise<string>;
+
+interface AuthComponentProps {
+  onAddressChange: (address: string) => void;
+  onSignMessageChange?: (signMessage: SignMessage | null) => void;
+}
+
 // Main auth component with Privy hooks
-function PrivyAuth({ onAddressChange }: { onAddressChange: (address: string) => void }) {
+function PrivyAuth({ onAddressChange, onSignMessageChange }: AuthComponentProps) {
   const { authenticated, user, ready, logout, login } = usePrivy();
+  const { signMessage: crossAppSignMessage } = useCrossAppAccounts();
   const [accountAddress, setAccountAddress] = useState<string>("");
   const [message, setMessage] = useState<string>("");
   const [copied, setCopied] = useState<boolean>(false);
@@ -29,6 +38,19 @@ function PrivyAuth({ onAddressChange }: { onAddressChange: (address: string) =>
     error: userError 
   } = useMonadGamesUser(accountAddress);
 
+  // Keep the latest Privy signer in a ref so the callback handed to the game stays stable
+  const crossAppSignMessageRef = useRef(crossAppSignMessage);
+  crossAppSignMessageRef.current = crossAppSignMessage;
+
+  const signMessage = useCallback(
+    (message: string) => crossAppSignMessageRef.current(message, { address: accountAddress }),
+    [accountAddress]
+  );
+
+  useEffect(() => {
+    onSignMessageChange?.(accountAddress ? signMessage : null);
+  }, [accountAddress, signMessage, onSignMessageChange]);
+
   useEffect(() => {
     // Check if privy is ready and user is authenticated
     if (authenticated && user && ready) {
@@ -133,12 +155,12 @@ function PrivyAuth({ onAddressChange }: { onAddressChange: (address: string) =>
 }
 
 // Main component that conditionally renders based on Privy configuration
-export default function AuthComponent({ onAddressChange }: { onAddressChange: (address: string) => void }) {
+export default function AuthComponent({ onAddressChange, onSignMessageChange }: AuthComponentProps) {
   const privyAppId = process.env.NEXT_PUBLIC_PRIVY_APP_ID;
   
   if (!privyAppId) {
     return <AuthNotConfigured />;
   }
   
-  return <PrivyAuth onAddressChange={onAddressChange} />;
+  return <PrivyAuth onAddressChange={onAddressChange} onSignMessageChange={onSignMessageChange} />;
 }
\ No newline at end of file
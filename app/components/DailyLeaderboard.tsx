@@ -0,0 +1,61 @@
+"use client";
+import { DailyLeaderboardResponse } from '../lib/score-api';
+
+interface DailyLeaderboardProps {
+  board: DailyLeaderboardResponse | null;
+  playerAddress?: string;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export default function DailyLeaderboard({ board, playerAddress }: DailyLeaderboardProps) {
+  if (!board) {
+    return null;
+  }
+
+  const player = playerAddress?.toLowerCase();
+  const playerListed = board.entries.some(entry => entry.playerAddress.toLowerCase() === player);
+
+  return (
+    <div className="w-full max-w-md bg-gray-900 text-white p-3 rounded-lg border border-gray-700 text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-sm">Daily Challenge</h3>
+        <span className="text-gray-400">{board.date} (UTC)</span>
+      </div>
+      {board.entries.length === 0 ? (
+        <p className="text-gray-400">No ranked runs yet today.</p>
+      ) : (
+        <div className="space-y-1">
+          {board.entries.map(entry => (
+            <div
+              key={entry.playerAddress}
+              className={`flex items-center justify-between gap-2 ${
+                entry.playerAddress.toLowerCase() === player ? 'text-yellow-300' : ''
+              }`}
+            >
+              <span className="w-8">#{entry.rank}</span>
+              <span className="font-mono flex-1">{shortAddress(entry.playerAddress)}</span>
+              <span>{entry.score}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {board.playerEntry && !playerListed && (
+        <div className="flex items-center justify-between gap-2 mt-2 pt-2 border-t border-gray-700 text-yellow-300">
+          <span className="w-8">#{board.playerEntry.rank}</span>
+          <span className="font-mono flex-1">{shortAddress(board.playerEntry.playerAddress)}</span>
+          <span>{board.playerEntry.score}</span>
+        </div>
+      )}
+      {playerAddress && (
+        <p className="text-gray-400 mt-2">
+          {board.attempted
+            ? 'You have used today\'s ranked attempt. Further runs are practice.'
+            : 'Your first daily run today is ranked.'}
+        </p>
+      )}
+    </div>
+  );
+}
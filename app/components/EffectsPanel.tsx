@@ -0,0 +1,28 @@
+"use client";
+import { EFFECT_LABELS, EffectSettings, VISUAL_EFFECTS } from '../lib/render/effect-settings';
+
+interface EffectsPanelProps {
+  settings: EffectSettings;
+  onChange: (settings: EffectSettings) => void;
+}
+
+export default function EffectsPanel({ settings, onChange }: EffectsPanelProps) {
+  return (
+    <div className="w-full max-w-md bg-gray-900 text-white p-3 rounded-lg border border-gray-700 text-xs">
+      <h3 className="font-bold text-sm mb-2">Effects</h3>
+      <div className="space-y-1">
+        {VISUAL_EFFECTS.map(effect => (
+          <label key={effect} className="flex items-center justify-between gap-2 cursor-pointer">
+            <span>{EFFECT_LABELS[effect]}</span>
+            <input
+              type="checkbox"
+              checked={settings[effect]}
+              onChange={e => onChange({ ...settings, [effect]: e.target.checked })}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-gray-500 mt-2">Turn effects off if the game runs slowly on this device</p>
+    </div>
+  );
+}
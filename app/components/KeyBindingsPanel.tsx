@@ -0,0 +1,57 @@
+"use client";
+import { useEffect, useState } from 'react';
+import { GAME_INTENTS, GameIntent, INTENT_LABELS, KeyBindings, formatBinding } from '../lib/input/key-bindings';
+
+interface KeyBindingsPanelProps {
+  bindings: KeyBindings;
+  onRebind: (intent: GameIntent, code: string) => void;
+  onReset: () => void;
+}
+
+export default function KeyBindingsPanel({ bindings, onRebind, onReset }: KeyBindingsPanelProps) {
+  const [listeningFor, setListeningFor] = useState<GameIntent | null>(null);
+
+  // Capture the next key press before the game's own listeners see it
+  useEffect(() => {
+    if (!listeningFor) {
+      return;
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.code !== 'Escape') {
+        onRebind(listeningFor, e.code);
+      }
+      setListeningFor(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [listeningFor, onRebind]);
+
+  return (
+    <div className="w-full max-w-md bg-gray-900 text-white p-3 rounded-lg border border-gray-700 text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-sm">Controls</h3>
+        <button onClick={onReset} className="text-gray-400 hover:text-white">
+          Reset to defaults
+        </button>
+      </div>
+      <div className="space-y-1">
+        {GAME_INTENTS.map(intent => (
+          <div key={intent} className="flex items-center justify-between gap-2">
+            <span>{INTENT_LABELS[intent]}</span>
+            <button
+              onClick={() => setListeningFor(intent)}
+              className="font-mono bg-gray-800 hover:bg-gray-700 px-2 py-0.5 rounded min-w-20"
+            >
+              {listeningFor === intent ? 'Press a key…' : formatBinding(bindings, intent) || 'Unbound'}
+            </button>
+          </div>
+        ))}
+      </div>
+      <p className="text-gray-500 mt-2">Gamepads: d-pad or stick to move, A or RT to shoot, Start to pause, Back to restart. In co-op the second gamepad plays as P2.</p>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+import { TICK_RATE } from '../lib/game/constants';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+export interface ReplayView {
+  tick: number;
+  length: number;
+  score: number;
+  playing: boolean;
+  speed: number;
+}
+
+interface ReplayControlsProps {
+  view: ReplayView;
+  onTogglePlay: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onClose: () => void;
+}
+
+function formatTime(ticks: number): string {
+  const seconds = Math.floor(ticks / TICK_RATE);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function ReplayControls({ view, onTogglePlay, onSeek, onSpeedChange, onClose }: ReplayControlsProps) {
+  return (
+    <div className="w-full max-w-2xl bg-gray-900 text-white p-3 rounded-lg border border-gray-700 text-sm">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onTogglePlay}
+          className="bg-blue-600 hover:bg-blue-700 font-bold py-1 px-3 rounded w-20"
+        >
+          {view.playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={view.length}
+          value={view.tick}
+          onChange={e => onSeek(Number(e.target.value))}
+          className="flex-1"
+          aria-label="Replay position"
+        />
+        <span className="font-mono text-xs w-24 text-right">
+          {formatTime(view.tick)} / {formatTime(view.length)}
+        </span>
+      </div>
+      <div className="flex items-center justify-between gap-3 mt-2">
+        <div className="flex items-center gap-1">
+          {REPLAY_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              onClick={() => onSpeedChange(speed)}
+              className={`py-1 px-2 rounded text-xs font-bold ${
+                speed === view.speed ? 'bg-yellow-500 text-black' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+            >
+              {speed}x
+            </button>
+          ))}
+        </div>
+        <span className="font-bold">Score: {view.score}</span>
+        <button onClick={onClose} className="bg-gray-700 hover:bg-gray-600 py-1 px-3 rounded">
+          Close replay
+        </button>
+      </div>
+    </div>
+  );
+}
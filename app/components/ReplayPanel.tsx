@@ -0,0 +1,98 @@
+"use client";
+import { useRef } from 'react';
+import { DIFFICULTIES, DIFFICULTY_LEVELS } from '../lib/game/difficulty';
+import { Replay } from '../lib/game/replay';
+import { PersonalBests } from '../lib/replay-library';
+
+interface ReplayPanelProps {
+  lastReplay: Replay | null;
+  personalBests: PersonalBests;
+  raceGhost: boolean;
+  disabled: boolean; // While a run is in progress or the game is busy
+  onRaceGhostChange: (enabled: boolean) => void;
+  onWatch: (replay: Replay) => void;
+  onExport: (replay: Replay) => void;
+  onImport: (file: File) => void;
+}
+
+export default function ReplayPanel({
+  lastReplay,
+  personalBests,
+  raceGhost,
+  disabled,
+  onRaceGhostChange,
+  onWatch,
+  onExport,
+  onImport,
+}: ReplayPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows: Array<{ key: string; label: string; replay: Replay }> = [];
+  if (lastReplay) {
+    rows.push({ key: 'last', label: 'Last run', replay: lastReplay });
+  }
+  for (const difficulty of DIFFICULTY_LEVELS) {
+    const best = personalBests[difficulty];
+    if (best) {
+      rows.push({ key: difficulty, label: `Best (${DIFFICULTIES[difficulty].label})`, replay: best });
+    }
+  }
+
+  return (
+    <div className="w-full max-w-md bg-gray-900 text-white p-3 rounded-lg border border-gray-700 text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-sm">Replays</h3>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <span>Race personal best ghost</span>
+          <input
+            type="checkbox"
+            checked={raceGhost}
+            onChange={e => onRaceGhostChange(e.target.checked)}
+          />
+        </label>
+      </div>
+      <div className="space-y-1">
+        {rows.length === 0 && <p className="text-gray-400">Finish a run to record a replay.</p>}
+        {rows.map(({ key, label, replay }) => (
+          <div key={key} className="flex items-center justify-between gap-2">
+            <span className="flex-1">{label}{replay.players > 1 && ' (co-op)'}</span>
+            <span>Score: {replay.score}</span>
+            <button
+              onClick={() => onWatch(replay)}
+              disabled={disabled}
+              className="bg-blue-600 px-2 py-1 rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Watch
+            </button>
+            <button
+              onClick={() => onExport(replay)}
+              className="bg-gray-700 px-2 py-1 rounded hover:bg-gray-600"
+            >
+              Export
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled}
+        className="mt-2 bg-gray-700 px-2 py-1 rounded hover:bg-gray-600 disabled:opacity-50"
+      >
+        Import replay...
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) {
+            onImport(file);
+          }
+        }}
+      />
+    </div>
+  );
+}
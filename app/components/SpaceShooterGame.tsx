@@ -1,392 +1,1167 @@
 "use client";
-import { useEffect, useRef, useState } from 'react';
-import { TransactionQueue } from '../lib/score-api';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SecureGameAuth, CompletedGameSession } from '../lib/secure-auth';
+import {
+  DailyLeaderboardResponse,
+  GameActionType,
+  getAchievements,
+  getDailyLeaderboard,
+  getVersusResult,
+} from '../lib/score-api';
+import type { AchievementStatus } from '../lib/achievements';
+import type { VersusOutcome } from '../lib/game-session';
+import {
+  VERSUS_STATE_INTERVAL_TICKS,
+  VersusClient,
+  VersusLobby,
+  VersusMatchInfo,
+  VersusProgress,
+  VersusRelayMessage,
+} from '../lib/versus-client';
 import { GAME_CONFIG } from '../lib/game-config';
+import { GameFlowEvent, GamePhase, getNextPhase, isBusy, isRunInProgress } from '../lib/game-flow';
+import { GAME_WIDTH, GAME_HEIGHT, PLAYER_LIVES, PLAYER_MAX_HEALTH, TICK_MS, TICK_RATE } from '../lib/game/constants';
+import { isBossWave } from '../lib/game/waves';
+import {
+  DAILY_CHALLENGE_DIFFICULTY,
+  DEFAULT_DIFFICULTY,
+  DIFFICULTIES,
+  DIFFICULTY_LEVELS,
+  Difficulty,
+} from '../lib/game/difficulty';
+import { addSpawns, canStep, createGameState, stepGame } from '../lib/game/simulation';
+import { InputRecorder } from '../lib/game/input-log';
+import { Replay, createReplay } from '../lib/game/replay';
+import { ReplayPlayer } from '../lib/game/replay-player';
+import { SpawnScheduleState, SpawnToken, createSpawnSchedule, generateSpawns } from '../lib/game/spawns';
+import { generateSeed } from '../lib/game/rng';
+import { GameEvent, GameState } from '../lib/game/types';
+import { InputManager } from '../lib/input/input-manager';
+import {
+  DEFAULT_KEY_BINDINGS,
+  GameIntent,
+  KeyBindings,
+  formatBinding,
+  loadKeyBindings,
+  rebindKey,
+  saveKeyBindings,
+} from '../lib/input/key-bindings';
+import { Banner, GameRenderer, Ghost } from '../lib/render/renderer';
+import {
+  DEFAULT_EFFECT_SETTINGS,
+  EffectSettings,
+  loadEffectSettings,
+  saveEffectSettings,
+} from '../lib/render/effect-settings';
+import { applyCanvasFit, fitCanvas } from '../lib/render/viewport';
+import { SoundEngine } from '../lib/audio/sound-engine';
+import {
+  AudioSettings,
+  DEFAULT_AUDIO_SETTINGS,
+  loadAudioSettings,
+  saveAudioSettings,
+} from '../lib/audio/audio-settings';
+import {
+  PersonalBests,
+  downloadReplay,
+  loadPersonalBests,
+  loadRaceGhost,
+  readReplayFile,
+  recordPersonalBest,
+  saveRaceGhost,
+} from '../lib/replay-library';
+import SubmissionHistory from './SubmissionHistory';
+import DailyLeaderboard from './DailyLeaderboard';
+import AchievementsPanel from './AchievementsPanel';
+import TouchControls from './TouchControls';
+import KeyBindingsPanel from './KeyBindingsPanel';
+import EffectsPanel from './EffectsPanel';
+import AudioPanel from './AudioPanel';
+import ReplayControls, { ReplayView } from './ReplayControls';
+import ReplayPanel from './ReplayPanel';
 import toast from 'react-hot-toast';
 
-interface GameObject {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  speed: number;
-}
+// Cap catch-up work after a stall (e.g. a background tab) so the loop can't spiral
+const MAX_TICKS_PER_FRAME = 10;
 
-interface Player extends GameObject {
-  health: number;
-}
+// Ask for more spawns when fewer than 5 seconds are known; guests schedule 10 seconds at a time
+const SPAWN_REFILL_TICKS = 5 * TICK_RATE;
+const LOCAL_SPAWN_LOOKAHEAD_TICKS = 10 * TICK_RATE;
+const SPAWN_RETRY_DELAY_MS = 1000;
+const SPAWN_STALL_TOAST = 'spawn-stall';
 
-interface Enemy extends GameObject {
-  lastShot: number;
-}
+const BANNER_TICKS = 2 * TICK_RATE;
+
+// The opponent's ship eases towards each reported position between the relay's updates
+const OPPONENT_EASING = 0.3;
+const VERSUS_RESULT_POLL_MS = 3000;
+
+type PlayMode = 'free' | 'daily' | 'versus';
 
-interface Bullet extends GameObject {
-  isPlayerBullet: boolean;
+const PLAY_MODES: Array<{ mode: PlayMode; label: string }> = [
+  { mode: 'free', label: 'Free Play' },
+  { mode: 'daily', label: 'Daily Challenge' },
+  { mode: 'versus', label: 'Versus' },
+];
+
+const START_BUTTON_LABELS: Record<GamePhase, string> = {
+  menu: 'Start Game',
+  authenticating: 'Waiting for wallet...',
+  matchmaking: 'Finding opponent...',
+  starting_session: 'Starting...',
+  playing: 'Start Game',
+  paused: 'Start Game',
+  game_over: 'Play Again',
+  submitting_score: 'Submitting score...',
+  submitted: 'Play Again',
+  watching_replay: 'Start Game',
+};
+
+function describeVersusOutcome(outcome: VersusOutcome, playerAddress?: string): string {
+  if (!outcome.decided) {
+    return 'Waiting for your opponent to finish...';
+  }
+  if (!outcome.winner) {
+    return 'Versus: draw';
+  }
+  return outcome.winner.toLowerCase() === playerAddress?.toLowerCase() ? 'Versus: you won!' : 'Versus: you lost';
 }
 
-const GAME_WIDTH = 800;
-const GAME_HEIGHT = 600;
-const PLAYER_SPEED = 5;
-const BULLET_SPEED = 7;
-const ENEMY_SPEED = 2;
-const ENEMY_SPAWN_RATE = 0.02;
-const ENEMY_SHOOT_COOLDOWN = 1000;
+// The announcement a simulation event puts on screen, if any
+function getBanner(event: GameEvent): Banner | null {
+  switch (event.type) {
+    case 'boss_defeated':
+      return { text: `BOSS DEFEATED +${event.points}`, untilTick: event.tick + BANNER_TICKS };
+    case 'wave_started':
+      return {
+        text: isBossWave(event.wave) ? `WAVE ${event.wave} - BOSS` : `WAVE ${event.wave}`,
+        untilTick: event.tick + BANNER_TICKS,
+      };
+    case 'wave_cleared':
+      return { text: `WAVE ${event.wave} CLEARED +${event.bonus}`, untilTick: event.tick + BANNER_TICKS };
+    default:
+      return null;
+  }
+}
 
 interface SpaceShooterGameProps {
   playerAddress?: string;
+  signMessage?: (message: string) => Promise<string>;
 }
 
-export default function SpaceShooterGame({ playerAddress }: SpaceShooterGameProps) {
+export default function SpaceShooterGame({ playerAddress, signMessage }: SpaceShooterGameProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const screenRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [canvasSize, setCanvasSize] = useState({ width: GAME_WIDTH, height: GAME_HEIGHT });
+  const [isFullscreen, setIsFullscreen] = useState(false);
   const gameLoopRef = useRef<number>(0);
   const [score, setScore] = useState(0);
-  const [gameOver, setGameOver] = useState(false);
-  const [gameStarted, setGameStarted] = useState(false);
-  const [lastSubmittedScore, setLastSubmittedScore] = useState(0);
+  const [wave, setWave] = useState(1);
+  const [lives, setLives] = useState(PLAYER_LIVES);
+  const [playerScores, setPlayerScores] = useState<number[]>([0]);
+  const [phase, setPhase] = useState<GamePhase>('menu');
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  // The daily challenge and versus need a wallet: their seeds come from the server and runs are
+  // ranked per address
+  const [playMode, setPlayMode] = useState<PlayMode>('free');
+  const selectedMode: PlayMode = playerAddress ? playMode : 'free';
+  const dailySelected = selectedMode === 'daily';
+  const versusSelected = selectedMode === 'versus';
+  // Local co-op shares this screen and keyboard; the daily challenge and versus are always solo
+  const [isCoop, setIsCoop] = useState(false);
+  const coopSelected = isCoop && selectedMode === 'free';
+  const [dailyBoard, setDailyBoard] = useState<DailyLeaderboardResponse | null>(null);
+  const [achievements, setAchievements] = useState<AchievementStatus[] | null>(null);
+  const gameOver = phase === 'game_over' || phase === 'submitting_score' || phase === 'submitted';
+  const [validatedScore, setValidatedScore] = useState<number | null>(null);
+  const [completedSessions, setCompletedSessions] = useState<CompletedGameSession[]>([]);
+  // Versus pairs players through the relay; the opponent's live progress is drawn as a ghost.
+  // Refs to heavy objects like this one are filled in on the first render only, so re-renders
+  // don't build new ones just to throw them away.
+  const versusRef = useRef<VersusClient>(null!);
+  versusRef.current ??= new VersusClient();
+  const matchRef = useRef<VersusMatchInfo | null>(null);
+  const opponentRef = useRef<{ progress: VersusProgress; shownX: number } | null>(null);
+  const handleRelayMessageRef = useRef<(message: VersusRelayMessage) => void>(() => {});
+  const [lobby, setLobby] = useState<VersusLobby | null>(null);
+  const [versusResult, setVersusResult] = useState<VersusOutcome | null>(null);
   
-  // Transaction queue for handling retries
-  const transactionQueueRef = useRef<TransactionQueue | null>(null);
-
-  const gameStateRef = useRef({
-    player: { x: GAME_WIDTH / 2 - 15, y: GAME_HEIGHT - 50, width: 30, height: 30, speed: PLAYER_SPEED, health: 1 } as Player,
-    enemies: [] as Enemy[],
-    playerBullets: [] as Bullet[],
-    enemyBullets: [] as Bullet[],
-    keys: { a: false, d: false, space: false },
-    lastPlayerShot: 0,
-    isRunning: false
+  // Server-side session flow: wallet auth -> game session -> validated actions -> on-chain submission
+  const secureAuthRef = useRef<SecureGameAuth>(null!);
+  secureAuthRef.current ??= new SecureGameAuth();
+  const signMessageRef = useRef(signMessage);
+  signMessageRef.current = signMessage;
+
+  // Every change of phase goes through dispatch, which runs the server call for the transition
+  const phaseRef = useRef<GamePhase>('menu');
+  const dispatchRef = useRef<(event: GameFlowEvent) => boolean>(() => false);
+  const restartGameRef = useRef<() => void>(() => {});
+  const toggleReplayRef = useRef<() => void>(() => {});
+  const restartPendingRef = useRef(false);
+
+  // The simulation owns all game state; this component only feeds it input and draws it
+  const gameStateRef = useRef<GameState>(null!);
+  gameStateRef.current ??= createGameState(DEFAULT_DIFFICULTY);
+  const inputManagerRef = useRef<InputManager>(null!);
+  inputManagerRef.current ??= new InputManager(DEFAULT_KEY_BINDINGS);
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(DEFAULT_KEY_BINDINGS);
+  const inputRecorderRef = useRef<InputRecorder>(null!);
+  inputRecorderRef.current ??= new InputRecorder();
+  const loopRef = useRef({ lastTime: 0, accumulator: 0 });
+  const bannerRef = useRef<Banner | null>(null);
+  const rendererRef = useRef<GameRenderer>(null!);
+  rendererRef.current ??= new GameRenderer(DEFAULT_EFFECT_SETTINGS);
+  const [effectSettings, setEffectSettings] = useState<EffectSettings>(DEFAULT_EFFECT_SETTINGS);
+  const soundRef = useRef<SoundEngine>(null!);
+  soundRef.current ??= new SoundEngine(DEFAULT_AUDIO_SETTINGS);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  // Every finished run becomes a replay; the best one per mode can be raced as a ghost
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [personalBests, setPersonalBests] = useState<PersonalBests>({});
+  const [raceGhost, setRaceGhost] = useState(false);
+  const ghostRef = useRef<ReplayPlayer | null>(null);
+  const localSpawnSeedRef = useRef<number | null>(null);
+  const viewerRef = useRef<{ player: ReplayPlayer; playing: boolean; speed: number; lastTime: number; accumulator: number } | null>(null);
+  const [replayView, setReplayView] = useState<ReplayView | null>(null);
+  // Signed-in runs get spawns from the server; guest runs use a local schedule
+  const spawnFeedRef = useRef<{ schedule: SpawnScheduleState | null; fetching: boolean; retryAt: number }>({
+    schedule: null,
+    fetching: false,
+    retryAt: 0,
   });
 
+  // Keyboard, gamepad and touch all feed one input layer; pause and restart are one-shot intents
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const key = e.key.toLowerCase();
-      if (key === 'a' || key === 'd' || key === ' ' || key === 'r') {
-        e.preventDefault();
-        if (key === 'r') {
-          console.log('R key pressed, gameOver:', gameOver);
-          // Always allow restart with 'r', regardless of game state
-          startGame();
-          return;
-        } else if (key === ' ') {
-          gameStateRef.current.keys.space = true;
-        } else {
-          gameStateRef.current.keys[key as 'a' | 'd'] = true;
-        }
+    const inputManager = inputManagerRef.current;
+    const bindings = loadKeyBindings();
+    inputManager.setBindings(bindings);
+    setKeyBindings(bindings);
+
+    const detach = inputManager.attach();
+    const unsubscribe = inputManager.onAction(intent => {
+      if (intent === 'restart') {
+        restartGameRef.current();
+      } else if (intent === 'pause' && phaseRef.current === 'watching_replay') {
+        toggleReplayRef.current();
+      } else if (intent === 'pause') {
+        dispatchRef.current(phaseRef.current === 'paused' ? 'resume' : 'pause');
       }
-    };
+    });
 
-    const handleKeyUp = (e: KeyboardEvent) => {
-      const key = e.key.toLowerCase();
-      if (key === 'a' || key === 'd' || key === ' ') {
-        e.preventDefault();
-        if (key === ' ') {
-          gameStateRef.current.keys.space = false;
-        } else if (key === 'a' || key === 'd') {
-          gameStateRef.current.keys[key as 'a' | 'd'] = false;
-        }
+    // Leaving the window or tab pauses the game rather than letting it play on unattended
+    const handleBlur = () => dispatchRef.current('pause');
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        dispatchRef.current('pause');
       }
     };
-
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
 
     return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
+      unsubscribe();
+      detach();
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
   }, []);
 
-  const startGame = () => {
-    setGameStarted(true);
-    setGameOver(false);
+  const updateKeyBindings = (bindings: KeyBindings) => {
+    saveKeyBindings(bindings);
+    inputManagerRef.current.setBindings(bindings);
+    setKeyBindings(bindings);
+  };
+
+  const handleRebind = useCallback((intent: GameIntent, code: string) => {
+    updateKeyBindings(rebindKey(keyBindings, intent, code));
+  }, [keyBindings]);
+
+  const handleResetBindings = () => updateKeyBindings(DEFAULT_KEY_BINDINGS);
+
+  const handleEffectSettingsChange = (settings: EffectSettings) => {
+    saveEffectSettings(settings);
+    rendererRef.current.setSettings(settings);
+    setEffectSettings(settings);
+  };
+
+  const handleAudioSettingsChange = (settings: AudioSettings) => {
+    saveAudioSettings(settings);
+    soundRef.current.setSettings(settings);
+    setAudioSettings(settings);
+  };
+
+  // Sign in with the wallet unless the current session token is still valid
+  const ensureAuthenticated = async (): Promise<boolean> => {
+    const secureAuth = secureAuthRef.current;
+    const status = secureAuth.getSessionStatus();
+    if (status.authenticated && status.playerAddress === playerAddress) {
+      return true;
+    }
+
+    if (!playerAddress || !signMessageRef.current) {
+      return false;
+    }
+
+    const result = await secureAuth.authenticateWallet(playerAddress, signMessageRef.current);
+    if (!result.success) {
+      toast.error(`Wallet authentication failed: ${result.error}`);
+    }
+    return result.success;
+  };
+
+  const submitToBlockchain = async (gameSessionId?: string): Promise<boolean> => {
+    const result = gameSessionId
+      ? await secureAuthRef.current.retrySubmission(gameSessionId)
+      : await secureAuthRef.current.submitToBlockchain();
+
+    if (result.success) {
+      toast.success('Score submitted on-chain!', { duration: 3000, icon: '🚀' });
+      if (result.transactionHash) {
+        console.log(`Transaction submitted: https://testnet.monadscan.com/tx/${result.transactionHash}`);
+        toast.success(
+          `TX: ${result.transactionHash.slice(0, 10)}...`,
+          {
+            duration: 5000,
+            icon: '📝',
+            style: {
+              fontSize: '12px',
+            },
+          }
+        );
+      }
+    } else {
+      toast.error(`Score submission failed: ${result.error}`, { duration: 6000, icon: '💀' });
+    }
+    return result.success;
+  };
+
+  // End the server session and submit the validated score
+  const finishGameSession = async (): Promise<boolean> => {
+    const secureAuth = secureAuthRef.current;
+
+    // The token may have expired during a long run, so re-authenticate before ending
+    if (!(await ensureAuthenticated())) {
+      return false;
+    }
+
+    const state = gameStateRef.current;
+    const result = await secureAuth.endGame(inputRecorderRef.current.getRecording(state.tick));
+    if (!result.success) {
+      toast.error(`Failed to end game session: ${result.error}`);
+      return false;
+    }
+
+    setValidatedScore(result.finalScore ?? 0);
+
+    // The server reveals the spawn seed once the run is over, which makes it replayable. Daily
+    // seeds stay secret while the day's challenge is running, so daily runs aren't kept; versus
+    // seeds come with the match result instead.
+    if (result.spawnSeed !== undefined) {
+      keepReplay(result.spawnSeed, result.finalScore ?? 0);
+    }
+
+    for (const achievement of result.achievements ?? []) {
+      toast.success(`Achievement unlocked: ${achievement.name}`, { duration: 4000, icon: '🏅' });
+    }
+    if (result.achievements?.length) {
+      refreshAchievements();
+    }
+
+    // The race is decided once both runs are over; the score still goes on-chain like any other
+    if (result.stats?.versus) {
+      awaitVersusOutcome(result.versus ?? null, result.stats.versus, result.spawnSeed === undefined ? result.finalScore ?? 0 : null);
+    }
+
+    // Daily runs are also ranked on the day's leaderboard
+    if (result.stats?.daily) {
+      if (result.dailyRank) {
+        toast.success(`Daily challenge rank: #${result.dailyRank}`, { duration: 4000, icon: '📅' });
+      } else if (!result.stats.daily.ranked) {
+        toast('Practice run: only your first daily run counts', { duration: 3000, icon: '📅' });
+      }
+      refreshDailyBoard();
+    }
+
+    // A run that scored nothing has nothing to put on-chain
+    if (!result.finalScore) {
+      return true;
+    }
+
+    toast(`Validated score: ${result.finalScore}. Submitting on-chain...`, {
+      duration: 2500,
+      icon: '📦',
+      style: {
+        background: '#3b82f6',
+        color: '#fff',
+      },
+    });
+    return submitToBlockchain();
+  };
+
+  // Keep asking the server until the opponent's run is over too
+  // replayScore is set when the run's replay is still waiting on the match's spawn seed
+  const awaitVersusOutcome = async (outcome: VersusOutcome | null, matchId: string, replayScore: number | null) => {
+    let current = outcome;
+    while (current && !current.decided) {
+      setVersusResult(current);
+      await new Promise(resolve => setTimeout(resolve, VERSUS_RESULT_POLL_MS));
+      // A new run has started since
+      if (matchRef.current?.matchId !== matchId) {
+        return;
+      }
+      current = await getVersusResult(matchId);
+    }
+
+    if (!current) {
+      toast.error('Could not get the versus result');
+      return;
+    }
+
+    setVersusResult(current);
+    if (replayScore !== null && current.spawnSeed !== undefined && matchRef.current?.matchId === matchId) {
+      keepReplay(current.spawnSeed, replayScore);
+    }
+
+    const description = describeVersusOutcome(current, playerAddress);
+    if (current.winner && current.winner.toLowerCase() === playerAddress?.toLowerCase()) {
+      toast.success(description, { duration: 4000, icon: '🏆' });
+    } else {
+      toast(description, { duration: 4000, icon: '⚔️' });
+    }
+  };
+
+  const retrySubmission = async (gameSessionId: string) => {
+    if (!(await ensureAuthenticated())) {
+      return;
+    }
+    await submitToBlockchain(gameSessionId);
+  };
+
+  const reportAction = (type: GameActionType, data: Record<string, unknown>) => {
+    if (!secureAuthRef.current.getSessionStatus().gameActive) {
+      return;
+    }
+
+    secureAuthRef.current.submitAction(type, data).then(result => {
+      if (!result.success) {
+        console.warn(`Action ${type} rejected:`, result.error);
+      }
+    });
+  };
+
+  const dispatch = (event: GameFlowEvent): boolean => {
+    const next = getNextPhase(phaseRef.current, event);
+    if (!next) {
+      return false;
+    }
+
+    phaseRef.current = next;
+    setPhase(next);
+
+    switch (event) {
+      case 'start':
+        restartPendingRef.current = false;
+        matchRef.current = null;
+        opponentRef.current = null;
+        setVersusResult(null);
+        // Starting is always a click or key press, which lets the browser play audio
+        soundRef.current.unlock();
+        authenticate();
+        break;
+      case 'authenticated':
+      case 'matched':
+        startSession();
+        break;
+      case 'queue':
+        findMatch();
+        break;
+      case 'cancel':
+        versusRef.current.leave();
+        break;
+      case 'session_started':
+        soundRef.current.startMusic();
+        break;
+      case 'pause':
+        // The simulation stands still while paused; the server leaves paused time out of its timing checks
+        cancelAnimationFrame(gameLoopRef.current);
+        soundRef.current.stopMusic();
+        reportAction('pause', { tick: gameStateRef.current.tick });
+        break;
+      case 'resume':
+        loopRef.current = { lastTime: performance.now(), accumulator: 0 };
+        soundRef.current.startMusic();
+        reportAction('resume', { tick: gameStateRef.current.tick });
+        gameLoopRef.current = requestAnimationFrame(gameLoop);
+        break;
+      case 'end':
+        cancelAnimationFrame(gameLoopRef.current);
+        soundRef.current.stopMusic();
+        toast.dismiss(SPAWN_STALL_TOAST);
+        if (matchRef.current) {
+          sendVersusProgress(true);
+        }
+        // Signed-in runs close their server session; guest runs are simply over
+        if (playerAddress) {
+          dispatch('submit');
+        } else {
+          if (localSpawnSeedRef.current !== null) {
+            keepReplay(localSpawnSeedRef.current, gameStateRef.current.score);
+          }
+          if (restartPendingRef.current) {
+            dispatch('start');
+          }
+        }
+        break;
+      case 'submit':
+        finishGameSession().then(submitted => dispatch(submitted ? 'submitted' : 'failed'));
+        break;
+      case 'submitted':
+      case 'failed':
+        if (restartPendingRef.current) {
+          dispatch('start');
+        }
+        break;
+      case 'close':
+        cancelAnimationFrame(gameLoopRef.current);
+        viewerRef.current = null;
+        setReplayView(null);
+        break;
+    }
+    return true;
+  };
+  dispatchRef.current = dispatch;
+
+  // Restarting a run in progress ends it first, so its session is closed before the next one starts
+  restartGameRef.current = () => {
+    if (isRunInProgress(phaseRef.current)) {
+      restartPendingRef.current = true;
+      dispatch('end');
+    } else {
+      dispatch('start');
+    }
+  };
+
+  // Guests play without a wallet, so there is nothing to sign
+  const authenticate = async () => {
+    const authenticated = !playerAddress || await ensureAuthenticated();
+    if (!authenticated) {
+      dispatch('failed');
+      return;
+    }
+    dispatch(versusSelected ? 'queue' : 'authenticated');
+  };
+
+  // Join the relay's queue for the chosen mode; it answers with 'matched' once paired
+  const findMatch = async () => {
+    const result = await secureAuthRef.current.requestVersusTicket(difficulty);
+    if (!result.success || !result.ticket) {
+      toast.error(`Failed to join versus: ${result.error}`);
+      dispatch('failed');
+      return;
+    }
+
+    if (!(await versusRef.current.connect())) {
+      toast.error('Could not reach the versus server');
+      dispatch('failed');
+      return;
+    }
+
+    // The player may have cancelled in the meantime
+    if (phaseRef.current === 'matchmaking') {
+      versusRef.current.join(result.ticket);
+    }
+  };
+
+  const handleRelayMessage = (message: VersusRelayMessage) => {
+    switch (message.type) {
+      case 'lobby':
+        setLobby({ waiting: message.waiting, online: message.online });
+        break;
+      case 'matched': {
+        if (phaseRef.current !== 'matchmaking') return;
+        const { matchId, matchToken, difficulty: mode, opponent } = message;
+        matchRef.current = { matchId, matchToken, difficulty: mode, opponent };
+        toast(`Matched with ${opponent.slice(0, 6)}...${opponent.slice(-4)}`, { duration: 2500, icon: '⚔️' });
+        dispatch('matched');
+        break;
+      }
+      case 'opponent_state': {
+        if (!matchRef.current) return;
+        const { tick, score, x, lives, over } = message;
+        const opponent = opponentRef.current;
+        if (over && !opponent?.progress.over) {
+          toast(`Opponent finished with ${score}`, { duration: 3000, icon: '🏁' });
+        }
+        opponentRef.current = { progress: { tick, score, x, lives, over }, shownX: opponent?.shownX ?? x };
+        break;
+      }
+      case 'opponent_left':
+        // Leaving doesn't end the race; the server scores whatever run the opponent played
+        if (matchRef.current && !opponentRef.current?.progress.over) {
+          toast('Your opponent left the match', { duration: 3000, icon: '🚪' });
+        }
+        break;
+      case 'error':
+        if (phaseRef.current === 'matchmaking') {
+          toast.error(`Versus: ${message.error}`);
+          dispatch('failed');
+        } else {
+          console.warn('Versus relay error:', message.error);
+        }
+        break;
+    }
+  };
+  handleRelayMessageRef.current = handleRelayMessage;
+
+  const sendVersusProgress = (over: boolean) => {
+    const state = gameStateRef.current;
+    versusRef.current.sendProgress({
+      tick: state.tick,
+      score: state.score,
+      x: state.players[0].x,
+      lives: state.lives,
+      over,
+    });
+  };
+
+  // Signed-in runs play the server-issued spawns so the server can replay them
+  const startSession = async () => {
+    const players = coopSelected ? 2 : 1;
+    if (!playerAddress) {
+      dispatch('session_started');
+      runGame(difficulty, players, null);
+      return;
+    }
+
+    const match = matchRef.current;
+    const result = await secureAuthRef.current.startGame(
+      match?.difficulty ?? difficulty,
+      dailySelected,
+      players,
+      match?.matchToken
+    );
+    if (!result.success || !result.spawns || result.spawnHorizon === undefined) {
+      toast.error(`Failed to start game session: ${result.error}`);
+      if (match) {
+        versusRef.current.leave();
+      }
+      dispatch('failed');
+      return;
+    }
+
+    if (result.daily && !result.daily.ranked) {
+      toast('Today\'s ranked attempt is used; this daily run is practice', { duration: 3000, icon: '📅' });
+    }
+
+    // The server's mode and player count are the ones the run is scored and replayed with
+    dispatch('session_started');
+    runGame(
+      result.difficulty ?? difficulty,
+      result.players ?? players,
+      { spawns: result.spawns, spawnHorizon: result.spawnHorizon }
+    );
+  };
+
+  const runGame = (
+    mode: Difficulty,
+    players: number,
+    serverSpawns: { spawns: SpawnToken[]; spawnHorizon: number } | null
+  ) => {
     setScore(0);
-    setLastSubmittedScore(0); // Reset this so transactions work again
+    setWave(1);
+    setLives(PLAYER_LIVES);
+    setPlayerScores(new Array(players).fill(0));
+    setValidatedScore(null);
+    bannerRef.current = null;
+    rendererRef.current.reset();
     
-    gameStateRef.current = {
-      player: { x: GAME_WIDTH / 2 - 15, y: GAME_HEIGHT - 50, width: 30, height: 30, speed: PLAYER_SPEED, health: 1 },
-      enemies: [],
-      playerBullets: [],
-      enemyBullets: [],
-      keys: { a: false, d: false, space: false },
-      lastPlayerShot: 0,
-      isRunning: true
+    gameStateRef.current = createGameState(mode, players);
+    inputManagerRef.current.setPlayerCount(players);
+    inputRecorderRef.current = new InputRecorder();
+    localSpawnSeedRef.current = serverSpawns ? null : generateSeed();
+    spawnFeedRef.current = {
+      schedule: localSpawnSeedRef.current !== null ? createSpawnSchedule(localSpawnSeedRef.current, mode) : null,
+      fetching: false,
+      retryAt: 0,
     };
+    if (serverSpawns) {
+      addSpawns(gameStateRef.current, serverSpawns.spawns, serverSpawns.spawnHorizon);
+    }
+
+    // The ghost replays the personal best for this mode in step with the run; bests are solo only,
+    // and a versus opponent takes its place
+    const best = raceGhost && players === 1 && !matchRef.current ? personalBests[mode] : undefined;
+    ghostRef.current = best ? new ReplayPlayer(best) : null;
+    loopRef.current = { lastTime: performance.now(), accumulator: 0 };
     
     if (gameLoopRef.current) {
       cancelAnimationFrame(gameLoopRef.current);
     }
-    gameLoop();
+    gameLoopRef.current = requestAnimationFrame(gameLoop);
   };
 
-  const gameLoop = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  // Keep spawns known a few seconds ahead of the simulation
+  const topUpSpawns = (state: GameState) => {
+    const feed = spawnFeedRef.current;
+    if (state.spawnHorizon - state.tick > SPAWN_REFILL_TICKS) return;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    if (feed.schedule) {
+      const spawns = generateSpawns(feed.schedule, state.tick + LOCAL_SPAWN_LOOKAHEAD_TICKS);
+      addSpawns(state, spawns, feed.schedule.nextTick);
+      return;
+    }
 
-    const currentTime = Date.now();
-    const gameState = gameStateRef.current;
-
-    // Clear canvas
-    ctx.fillStyle = '#000';
-    ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
-
-    // Move player
-    if (gameState.keys.a && gameState.player.x > 0) {
-      gameState.player.x -= gameState.player.speed;
-    }
-    if (gameState.keys.d && gameState.player.x < GAME_WIDTH - gameState.player.width) {
-      gameState.player.x += gameState.player.speed;
-    }
-
-    // Player shooting
-    if (gameState.keys.space && currentTime - gameState.lastPlayerShot > 150) {
-      gameState.playerBullets.push({
-        x: gameState.player.x + gameState.player.width / 2 - 2,
-        y: gameState.player.y,
-        width: 4,
-        height: 10,
-        speed: BULLET_SPEED,
-        isPlayerBullet: true
-      });
-      gameState.lastPlayerShot = currentTime;
-    }
-
-    // Spawn enemies
-    if (Math.random() < ENEMY_SPAWN_RATE) {
-      gameState.enemies.push({
-        x: Math.random() * (GAME_WIDTH - 30),
-        y: -30,
-        width: 30,
-        height: 30,
-        speed: ENEMY_SPEED,
-        lastShot: currentTime
-      });
-    }
-
-    // Move and update enemies
-    gameState.enemies.forEach((enemy, enemyIndex) => {
-      enemy.y += enemy.speed;
-
-      // Enemy shooting
-      if (currentTime - enemy.lastShot > ENEMY_SHOOT_COOLDOWN) {
-        gameState.enemyBullets.push({
-          x: enemy.x + enemy.width / 2 - 2,
-          y: enemy.y + enemy.height,
-          width: 4,
-          height: 10,
-          speed: BULLET_SPEED,
-          isPlayerBullet: false
-        });
-        enemy.lastShot = currentTime;
-      }
+    if (feed.fetching || performance.now() < feed.retryAt) return;
 
-      // Remove enemies that are off screen
-      if (enemy.y > GAME_HEIGHT) {
-        gameState.enemies.splice(enemyIndex, 1);
-      }
-    });
+    feed.fetching = true;
+    secureAuthRef.current.requestSpawns(state.spawnHorizon).then(result => {
+      feed.fetching = false;
 
-    // Move player bullets
-    gameState.playerBullets.forEach((bullet, bulletIndex) => {
-      bullet.y -= bullet.speed;
-      if (bullet.y < 0) {
-        gameState.playerBullets.splice(bulletIndex, 1);
+      if (result.success && result.spawns && result.spawnHorizon !== undefined) {
+        // Ignore late replies for a game that has since been replaced
+        if (gameStateRef.current === state) {
+          addSpawns(state, result.spawns, result.spawnHorizon);
+        }
+        toast.dismiss(SPAWN_STALL_TOAST);
+      } else {
+        feed.retryAt = performance.now() + SPAWN_RETRY_DELAY_MS;
+        // Once the known spawns run out the run stands still, so say why
+        if (gameStateRef.current === state && !canStep(state)) {
+          toast.loading(`Waiting for the game server: ${result.error}. Retrying...`, { id: SPAWN_STALL_TOAST });
+        }
       }
     });
+  };
+
+  const handleEvents = (events: GameEvent[]) => {
+    for (const event of events) {
+      bannerRef.current = getBanner(event) ?? bannerRef.current;
 
-    // Move enemy bullets
-    gameState.enemyBullets.forEach((bullet, bulletIndex) => {
-      bullet.y += bullet.speed;
-      if (bullet.y > GAME_HEIGHT) {
-        gameState.enemyBullets.splice(bulletIndex, 1);
+      switch (event.type) {
+        case 'shot_fired':
+          reportAction('shot_fired', { player: event.player, tick: event.tick, bullets: event.bullets });
+          break;
+        case 'enemy_killed':
+          reportAction('enemy_killed', { player: event.player, enemyId: event.enemyId, tick: event.tick, points: event.points });
+          break;
+        case 'power_up_collected':
+          reportAction('power_up_collected', {
+            player: event.player,
+            enemyId: event.enemyId,
+            powerUp: event.powerUp,
+            tick: event.tick,
+          });
+          break;
+        case 'power_up_expired':
+          reportAction('power_up_expired', { player: event.player, powerUp: event.powerUp, tick: event.tick });
+          break;
+        case 'boss_defeated':
+          reportAction('boss_defeated', { player: event.player, enemyId: event.enemyId, tick: event.tick, points: event.points });
+          break;
+        case 'player_hit':
+          reportAction('player_hit', { player: event.player, tick: event.tick });
+          break;
+        case 'player_died':
+          dispatch('end');
+          break;
       }
-    });
+    }
+  };
+
+  const gameLoop = (timestamp: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const state = gameStateRef.current;
+    const renderer = rendererRef.current;
+
+    // Only a run in play advances; once it ends, the frames left let its effects play out
+    if (phaseRef.current === 'playing') {
+      const loop = loopRef.current;
+
+      // Advance the simulation in fixed ticks, independent of the display refresh rate
+      loop.accumulator += timestamp - loop.lastTime;
+      loop.lastTime = timestamp;
+
+      topUpSpawns(state);
 
-    // Collision detection - player bullets vs enemies
-    gameState.playerBullets.forEach((bullet, bulletIndex) => {
-      gameState.enemies.forEach((enemy, enemyIndex) => {
-        if (bullet.x < enemy.x + enemy.width &&
-            bullet.x + bullet.width > enemy.x &&
-            bullet.y < enemy.y + enemy.height &&
-            bullet.y + bullet.height > enemy.y) {
-          gameState.playerBullets.splice(bulletIndex, 1);
-          gameState.enemies.splice(enemyIndex, 1);
-          setScore(prev => prev + 10);
+      let ticks = 0;
+      while (loop.accumulator >= TICK_MS && phaseRef.current === 'playing') {
+        // Drop the time instead of catching up when stalled or waiting for spawns
+        if (ticks === MAX_TICKS_PER_FRAME || !canStep(state)) {
+          loop.accumulator = 0;
+          break;
         }
-      });
-    });
 
-    // Collision detection - enemy bullets vs player
-    gameState.enemyBullets.forEach((bullet, bulletIndex) => {
-      if (bullet.x < gameState.player.x + gameState.player.width &&
-          bullet.x + bullet.width > gameState.player.x &&
-          bullet.y < gameState.player.y + gameState.player.height &&
-          bullet.y + bullet.height > gameState.player.y) {
-        gameState.isRunning = false;
-        setGameOver(true);
-        setGameStarted(false);
-        return;
+        const inputs = inputManagerRef.current.getPlayerIntents();
+        inputRecorderRef.current.record(state.tick, inputs);
+        renderer.trackEnemies(state);
+        const events = stepGame(state, inputs);
+        renderer.handleEvents(events, state, timestamp);
+        soundRef.current.handleEvents(events);
+        handleEvents(events);
+        if (matchRef.current && state.tick % VERSUS_STATE_INTERVAL_TICKS === 0 && !state.isOver) {
+          sendVersusProgress(false);
+        }
+        loop.accumulator -= TICK_MS;
+        ticks++;
       }
-    });
 
-    // Collision detection - enemies vs player
-    gameState.enemies.forEach((enemy) => {
-      if (enemy.x < gameState.player.x + gameState.player.width &&
-          enemy.x + enemy.width > gameState.player.x &&
-          enemy.y < gameState.player.y + gameState.player.height &&
-          enemy.y + enemy.height > gameState.player.y) {
-        gameState.isRunning = false;
-        setGameOver(true);
-        setGameStarted(false);
-        return;
+      // Keep the ghost on the same tick as the run
+      const ghost = ghostRef.current;
+      while (ghost && ghost.getTick() < state.tick && !ghost.isFinished()) {
+        ghost.step();
       }
-    });
 
-    // Draw player (square)
-    ctx.fillStyle = '#00ff00';
-    ctx.fillRect(gameState.player.x, gameState.player.y, gameState.player.width, gameState.player.height);
-
-    // Draw enemies (triangles)
-    ctx.fillStyle = '#ff0000';
-    gameState.enemies.forEach(enemy => {
-      ctx.beginPath();
-      ctx.moveTo(enemy.x + enemy.width / 2, enemy.y);
-      ctx.lineTo(enemy.x, enemy.y + enemy.height);
-      ctx.lineTo(enemy.x + enemy.width, enemy.y + enemy.height);
-      ctx.closePath();
-      ctx.fill();
-    });
+      const opponent = opponentRef.current;
+      if (opponent) {
+        opponent.shownX += (opponent.progress.x - opponent.shownX) * OPPONENT_EASING;
+      }
 
-    // Draw bullets
-    ctx.fillStyle = '#ffff00';
-    [...gameState.playerBullets, ...gameState.enemyBullets].forEach(bullet => {
-      ctx.fillRect(bullet.x, bullet.y, bullet.width, bullet.height);
-    });
+      setScore(state.score);
+      setWave(Math.max(state.wave, 1));
+      setLives(state.lives);
+      // Only a change of score re-renders; the loop runs at the display's refresh rate
+      setPlayerScores(scores =>
+        scores.length === state.players.length && state.players.every((player, index) => player.score === scores[index])
+          ? scores
+          : state.players.map(player => player.score)
+      );
+    }
 
-    if (gameState.isRunning) {
+    renderer.render(ctx, state, bannerRef.current, timestamp, getGhost(state));
+
+    if (phaseRef.current === 'playing' || renderer.hasActiveEffects(timestamp)) {
       gameLoopRef.current = requestAnimationFrame(gameLoop);
     }
   };
 
-  useEffect(() => {
-    // Initial canvas setup
-    const canvas = canvasRef.current;
-    if (canvas) {
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.fillStyle = '#000';
-        ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+  // The other run drawn alongside this one: the versus opponent, or the personal best
+  const getGhost = (state: GameState): Ghost | null => {
+    if (matchRef.current) {
+      const opponent = opponentRef.current;
+      if (!opponent) return null;
+
+      const ship = state.players[0];
+      return {
+        label: 'Opponent',
+        ship: { x: opponent.shownX, y: ship.y, width: ship.width, height: ship.height, health: PLAYER_MAX_HEALTH },
+        score: opponent.progress.score,
+        finished: opponent.progress.over,
+      };
+    }
+
+    const ghost = ghostRef.current?.getState();
+    return ghost ? { label: 'Ghost', ship: ghost.players[0], score: ghost.score, finished: ghost.isOver } : null;
+  };
+
+  // Record the finished run as a replay, and keep it if it is the best yet for its mode
+  const keepReplay = (spawnSeed: number, score: number) => {
+    const state = gameStateRef.current;
+    const replay = createReplay(
+      inputRecorderRef.current.getRecording(state.tick),
+      spawnSeed,
+      state.difficulty,
+      score,
+      state.players.length
+    );
+    setLastReplay(replay);
+
+    const updated = recordPersonalBest(loadPersonalBests(), replay);
+    if (updated) {
+      setPersonalBests(updated);
+      toast.success(`New personal best on ${DIFFICULTIES[replay.difficulty].label}: ${score}`, { duration: 3000, icon: '👻' });
+    }
+  };
+
+  const updateReplayView = () => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+
+    setReplayView({
+      tick: viewer.player.getTick(),
+      length: viewer.player.getLength(),
+      score: viewer.player.getState().score,
+      playing: viewer.playing,
+      speed: viewer.speed,
+    });
+  };
+
+  const watchReplay = (replay: Replay) => {
+    if (!dispatch('watch')) return;
+
+    cancelAnimationFrame(gameLoopRef.current);
+    rendererRef.current.reset();
+    bannerRef.current = null;
+    viewerRef.current = {
+      player: new ReplayPlayer(replay),
+      playing: true,
+      speed: viewerRef.current?.speed ?? 1,
+      lastTime: performance.now(),
+      accumulator: 0,
+    };
+    updateReplayView();
+    gameLoopRef.current = requestAnimationFrame(replayLoop);
+  };
+
+  // Plays the replay through the renderer at the chosen speed; runs until the viewer closes
+  const replayLoop = (timestamp: number) => {
+    const viewer = viewerRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!viewer || !ctx || phaseRef.current !== 'watching_replay') return;
+
+    const renderer = rendererRef.current;
+    const tickBefore = viewer.player.getTick();
+    const wasPlaying = viewer.playing;
+
+    if (viewer.playing) {
+      viewer.accumulator += (timestamp - viewer.lastTime) * viewer.speed;
+
+      let ticks = 0;
+      while (viewer.accumulator >= TICK_MS && ticks < MAX_TICKS_PER_FRAME * viewer.speed) {
+        if (viewer.player.isFinished()) {
+          viewer.playing = false;
+          viewer.accumulator = 0;
+          break;
+        }
+
+        const state = viewer.player.getState();
+        renderer.trackEnemies(state);
+        const events = viewer.player.step();
+        renderer.handleEvents(events, state, timestamp);
+        soundRef.current.handleEvents(events);
+        for (const event of events) {
+          bannerRef.current = getBanner(event) ?? bannerRef.current;
+        }
+        viewer.accumulator -= TICK_MS;
+        ticks++;
       }
+      if (viewer.accumulator >= TICK_MS) {
+        viewer.accumulator = 0;
+      }
+    }
+    viewer.lastTime = timestamp;
+
+    // The controls only need a few updates a second
+    const tick = viewer.player.getTick();
+    if (Math.floor(tick / 10) !== Math.floor(tickBefore / 10) || viewer.playing !== wasPlaying) {
+      updateReplayView();
     }
 
+    renderer.render(ctx, viewer.player.getState(), bannerRef.current, timestamp);
+    gameLoopRef.current = requestAnimationFrame(replayLoop);
+  };
+
+  const toggleReplay = () => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+
+    // Playing a finished replay starts it over
+    if (!viewer.playing && viewer.player.isFinished()) {
+      viewer.player.seek(0);
+      rendererRef.current.reset();
+      bannerRef.current = null;
+    }
+    viewer.playing = !viewer.playing;
+    viewer.accumulator = 0;
+    updateReplayView();
+  };
+  toggleReplayRef.current = toggleReplay;
+
+  const seekReplay = (tick: number) => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+
+    viewer.player.seek(tick);
+    viewer.accumulator = 0;
+    rendererRef.current.reset();
+    bannerRef.current = null;
+    updateReplayView();
+  };
+
+  const setReplaySpeed = (speed: number) => {
+    if (!viewerRef.current) return;
+    viewerRef.current.speed = speed;
+    updateReplayView();
+  };
+
+  const importReplay = async (file: File) => {
+    const result = await readReplayFile(file);
+    if (!result.valid || !result.replay) {
+      toast.error(`Could not import replay: ${result.error}`);
+      return;
+    }
+    watchReplay(result.replay);
+  };
+
+  const handleRaceGhostChange = (enabled: boolean) => {
+    saveRaceGhost(enabled);
+    setRaceGhost(enabled);
+  };
+
+  useEffect(() => {
+    const settings = loadEffectSettings();
+    rendererRef.current.setSettings(settings);
+    setEffectSettings(settings);
+    rendererRef.current.loadSprites();
+
+    setPersonalBests(loadPersonalBests());
+    setRaceGhost(loadRaceGhost());
+
+    const audio = loadAudioSettings();
+    soundRef.current.setSettings(audio);
+    setAudioSettings(audio);
+
+    const sound = soundRef.current;
     return () => {
       if (gameLoopRef.current) {
         cancelAnimationFrame(gameLoopRef.current);
       }
+      sound.stopMusic();
     };
   }, []);
 
-  // Initialize transaction queue
   useEffect(() => {
-    if (playerAddress && !transactionQueueRef.current) {
-      transactionQueueRef.current = new TransactionQueue();
-    }
-    
+    const versus = versusRef.current;
+    const unsubscribe = versus.onMessage(message => handleRelayMessageRef.current(message));
     return () => {
-      if (transactionQueueRef.current) {
-        transactionQueueRef.current.destroy();
-        transactionQueueRef.current = null;
+      unsubscribe();
+      versus.close();
+    };
+  }, []);
+
+  // Connect to the lobby as soon as versus is picked, to show who is waiting
+  useEffect(() => {
+    if (versusSelected) {
+      versusRef.current.connect();
+    }
+  }, [versusSelected]);
+
+  // Fit the canvas to the space around it, and redraw since resizing clears it. Window
+  // resizes, rotations, fullscreen changes and moves to a screen of another density all
+  // end up here, through the observer or the resize event.
+  useEffect(() => {
+    const stage = stageRef.current;
+    const canvas = canvasRef.current;
+    if (!stage || !canvas) {
+      return;
+    }
+
+    const fit = () => {
+      const canvasFit = fitCanvas(stage.clientWidth, stage.clientHeight, window.devicePixelRatio);
+      applyCanvasFit(canvas, canvasFit);
+      setCanvasSize({ width: canvasFit.cssWidth, height: canvasFit.cssHeight });
+
+      const ctx = canvas.getContext('2d');
+      if (ctx && phaseRef.current !== 'playing') {
+        rendererRef.current.render(ctx, gameStateRef.current, bannerRef.current, performance.now());
       }
     };
+
+    const observer = new ResizeObserver(fit);
+    observer.observe(stage);
+    window.addEventListener('resize', fit);
+    window.addEventListener('orientationchange', fit);
+    fit();
+
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', fit);
+      window.removeEventListener('orientationchange', fit);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(document.fullscreenElement === screenRef.current);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+        return;
+      }
+
+      await screenRef.current?.requestFullscreen();
+      // Phones get the most out of the screen held sideways; browsers that can't lock just ignore it
+      const orientation = screen.orientation as ScreenOrientation & { lock?: (orientation: string) => Promise<void> };
+      await orientation.lock?.('landscape').catch(() => {});
+    } catch (error) {
+      console.warn('Fullscreen is not available:', error);
+    }
+  };
+
+  const refreshDailyBoard = useCallback(() => {
+    getDailyLeaderboard(playerAddress).then(board => {
+      if (board) {
+        setDailyBoard(board);
+      }
+    });
   }, [playerAddress]);
 
+  useEffect(() => {
+    refreshDailyBoard();
+  }, [refreshDailyBoard]);
+
+  const refreshAchievements = useCallback(() => {
+    if (!playerAddress) {
+      setAchievements(null);
+      return;
+    }
+
+    getAchievements(playerAddress).then(response => {
+      if (response) {
+        setAchievements(response.achievements);
+      }
+    });
+  }, [playerAddress]);
 
-  // Handle score submission when score changes - each increase is a separate transaction
   useEffect(() => {
-    if (playerAddress && transactionQueueRef.current && score > lastSubmittedScore) {
-      const scoreIncrease = score - lastSubmittedScore;
-      
-      // Add transaction to queue with retry logic
-      transactionQueueRef.current.enqueue(
-        playerAddress,
-        scoreIncrease,
-        1,
-        {
-          onSuccess: (result) => {
-            toast.success(
-              `Transaction confirmed! +${scoreIncrease} points`,
-              {
-                duration: 3000,
-                icon: '🚀',
-              }
-            );
-            if (result.transactionHash) {
-              toast.success(
-                `TX: ${result.transactionHash.slice(0, 10)}...`,
-                {
-                  duration: 5000,
-                  icon: '📝',
-                  style: {
-                    fontSize: '12px',
-                  },
-                }
-              );
-            }
-          },
-          onFailure: (error) => {
-            const isPriorityError = error.includes('Another transaction has higher priority') || 
-                                    error.includes('higher priority');
-            
-            toast.error(
-              isPriorityError 
-                ? `Transaction congestion: ${scoreIncrease} points will retry with higher priority`
-                : `Transaction failed permanently: ${error}`,
-              {
-                duration: isPriorityError ? 4000 : 6000,
-                icon: isPriorityError ? '⚡' : '💀',
-              }
-            );
-          },
-          onRetry: (attempt) => {
-            toast(
-              `Retrying transaction... (${attempt}/5)`,
-              {
-                duration: 2000,
-                icon: '🔄',
-                style: {
-                  background: '#f59e0b',
-                  color: '#fff',
-                },
-              }
-            );
-          },
-        }
-      );
-      
-      // Show initial submission toast
-      toast(
-        `Queuing +${scoreIncrease} points (batching for efficiency)`,
-        {
-          duration: 2500,
-          icon: '📦',
-          style: {
-            background: '#3b82f6',
-            color: '#fff',
-          },
-        }
-      );
-      
-      setLastSubmittedScore(score);
+    refreshAchievements();
+  }, [refreshAchievements]);
+
+  // Mirror submission statuses into React state
+  useEffect(() => {
+    return secureAuthRef.current.subscribe(setCompletedSessions);
+  }, []);
+
+  // Authenticate the wallet as soon as the player logs in
+  useEffect(() => {
+    const secureAuth = secureAuthRef.current;
+
+    if (!playerAddress || !signMessage) {
+      secureAuth.logout();
+      return;
     }
-  }, [score, lastSubmittedScore, playerAddress]);
 
+    if (secureAuth.getSessionStatus().playerAddress === playerAddress) {
+      return;
+    }
+
+    secureAuth.authenticateWallet(playerAddress, signMessage).then(result => {
+      if (result.success) {
+        toast.success('Wallet authenticated', { duration: 2000, icon: '🔐' });
+      } else {
+        toast.error(`Wallet authentication failed: ${result.error}`);
+      }
+    });
+  }, [playerAddress, signMessage]);
 
   return (
     <div className="flex flex-col items-center gap-4 p-4">
       <div className="flex items-center gap-4">
         <div className="text-white text-2xl font-bold">Score: {score}</div>
+        {playerScores.length > 1 && (
+          <div className="text-gray-300 text-sm font-bold">
+            {playerScores.map((playerScore, index) => `P${index + 1}: ${playerScore}`).join(' • ')}
+          </div>
+        )}
+        <div className="text-yellow-300 text-xl font-bold">Wave: {wave}</div>
+        <div className="text-red-400 text-xl font-bold">Lives: {'♥'.repeat(Math.max(lives, 0))}</div>
+        <div className="text-gray-300 text-sm font-bold">{DIFFICULTIES[gameStateRef.current.difficulty].label}</div>
         {playerAddress && (
           <div className="text-sm">
             <span className="text-green-400">Game: {GAME_CONFIG.METADATA.name}</span>
@@ -394,51 +1169,214 @@ export default function SpaceShooterGame({ playerAddress }: SpaceShooterGameProp
         )}
       </div>
       
-      <div className="relative">
-        <canvas
-          ref={canvasRef}
-          width={GAME_WIDTH}
-          height={GAME_HEIGHT}
-          className="border border-gray-500"
-          style={{ background: '#000' }}
-        />
-        
-        {!gameStarted && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-75">
-            <div className="text-center text-white">
-              <button
-                onClick={startGame}
-                className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-6 rounded mb-4 text-lg"
-              >
-                {gameOver ? 'Play Again' : 'Start Game'}
-              </button>
-              {gameOver && (
-                <div className="text-red-500 text-xl font-bold mb-4">
-                  Game Over! Final Score: {score}
+      <div ref={screenRef} className="w-full flex flex-col items-center gap-4 bg-black">
+        {/* The stage takes the space available and the canvas is letterboxed inside it */}
+        <div
+          ref={stageRef}
+          className="relative w-full flex items-center justify-center"
+          style={isFullscreen ? { flex: 1 } : { height: 'min(calc(100dvh - 12rem), 75vw)', minHeight: 200 }}
+        >
+          <div className="relative" style={{ width: canvasSize.width, height: canvasSize.height }}>
+            <canvas
+              ref={canvasRef}
+              width={GAME_WIDTH}
+              height={GAME_HEIGHT}
+              className={isFullscreen ? '' : 'outline outline-1 outline-gray-500'}
+              style={{ background: '#000', display: 'block' }}
+            />
+
+            {phase === 'paused' && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-75">
+                <div className="text-center text-white">
+                  <div className="text-3xl font-bold mb-4">Paused</div>
+                  <button
+                    onClick={() => dispatch('resume')}
+                    className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-6 rounded mb-4 text-lg"
+                  >
+                    Resume
+                  </button>
+                  <p className="text-sm">Press {formatBinding(keyBindings, 'pause')} to resume</p>
                 </div>
-              )}
-              <div className="text-white text-sm space-y-1">
-                {gameOver ? (
-                  <p>Press R to play again</p>
-                ) : (
-                  <>
-                    <p>Use A/D keys to move left/right</p>
-                    <p>Press SPACE to shoot</p>
-                    <p>Avoid enemies and their bullets!</p>
-                  </>
-                )}
               </div>
-            </div>
+            )}
+
+            {!isRunInProgress(phase) && phase !== 'watching_replay' && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-75">
+                <div className="text-center text-white">
+                  <button
+                    onClick={() => dispatch('start')}
+                    disabled={isBusy(phase)}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold py-3 px-6 rounded mb-4 text-lg"
+                  >
+                    {START_BUTTON_LABELS[phase]}
+                  </button>
+                  {phase === 'matchmaking' && (
+                    <button
+                      onClick={() => dispatch('cancel')}
+                      className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded mb-4 ml-2 text-lg"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                  <div className="flex justify-center gap-2 mb-2">
+                    {PLAY_MODES.map(({ mode, label }) => (
+                      <button
+                        key={mode}
+                        onClick={() => setPlayMode(mode)}
+                        disabled={isBusy(phase) || (mode !== 'free' && !playerAddress)}
+                        title={mode !== 'free' && !playerAddress ? `Log in to play ${label}` : undefined}
+                        className={`py-1 px-3 rounded text-sm font-bold disabled:opacity-50 ${
+                          mode === selectedMode ? 'bg-yellow-500 text-black' : 'bg-gray-700 hover:bg-gray-600 text-white'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {selectedMode === 'free' && (
+                    <div className="flex justify-center gap-2 mb-2">
+                      {[false, true].map(coop => (
+                        <button
+                          key={coop ? 'coop' : 'solo'}
+                          onClick={() => setIsCoop(coop)}
+                          disabled={isBusy(phase)}
+                          className={`py-1 px-3 rounded text-sm font-bold disabled:opacity-50 ${
+                            coop === coopSelected ? 'bg-yellow-500 text-black' : 'bg-gray-700 hover:bg-gray-600 text-white'
+                          }`}
+                        >
+                          {coop ? '2 Players' : '1 Player'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {dailySelected ? (
+                    <p className="text-sm text-gray-300 mb-4">
+                      Everyone plays the same waves today on {DIFFICULTIES[DAILY_CHALLENGE_DIFFICULTY].label}.
+                      {dailyBoard?.attempted ? ' Your ranked run is used; this one is practice.' : ' Your first run counts.'}
+                    </p>
+                  ) : (
+                    <div className="flex justify-center gap-2 mb-4">
+                      {DIFFICULTY_LEVELS.map(level => (
+                        <button
+                          key={level}
+                          onClick={() => setDifficulty(level)}
+                          disabled={isBusy(phase)}
+                          className={`py-1 px-3 rounded text-sm font-bold disabled:opacity-50 ${
+                            level === difficulty ? 'bg-yellow-500 text-black' : 'bg-gray-700 hover:bg-gray-600 text-white'
+                          }`}
+                        >
+                          {DIFFICULTIES[level].label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {versusSelected && !gameOver && (
+                    <p className="text-sm text-gray-300 mb-4">
+                      Race another player on the same waves; the higher server-validated score wins.
+                      {lobby
+                        ? ` ${lobby.online} online, ${lobby.waiting[difficulty] ?? 0} waiting on ${DIFFICULTIES[difficulty].label}.`
+                        : ' Connecting to the lobby...'}
+                    </p>
+                  )}
+                  {gameOver && (
+                    <div className="text-red-500 text-xl font-bold mb-4">
+                      Game Over! Final Score: {score}
+                      {validatedScore !== null && (
+                        <div className="text-green-400 text-sm font-normal">
+                          Server-validated score: {validatedScore}
+                        </div>
+                      )}
+                      {versusResult && (
+                        <div className="text-yellow-300 text-lg">
+                          {describeVersusOutcome(versusResult, playerAddress)}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  <div className="text-white text-sm space-y-1">
+                    {gameOver ? (
+                      <p>
+                        {phase === 'submitting_score'
+                          ? 'Submitting your score...'
+                          : `Press ${formatBinding(keyBindings, 'restart')} to play again`}
+                      </p>
+                    ) : (
+                      <>
+                        <p>
+                          Use {formatBinding(keyBindings, 'left')} and {formatBinding(keyBindings, 'right')} to move
+                        </p>
+                        <p>Press {formatBinding(keyBindings, 'fire')} to shoot</p>
+                        {coopSelected && (
+                          <p>
+                            P2: {formatBinding(keyBindings, 'p2Left')}/{formatBinding(keyBindings, 'p2Right')} to move,
+                            {' '}{formatBinding(keyBindings, 'p2Fire')} to shoot, or a second gamepad. Lives are shared.
+                          </p>
+                        )}
+                        <p>Avoid enemies and their bullets!</p>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
+
+          <button
+            onClick={toggleFullscreen}
+            className="absolute bottom-2 right-2 bg-gray-800 bg-opacity-75 hover:bg-gray-700 text-white text-xs py-1 px-2 rounded"
+          >
+            {isFullscreen ? 'Exit fullscreen' : 'Fullscreen'}
+          </button>
+        </div>
+
+        {replayView && (
+          <ReplayControls
+            view={replayView}
+            onTogglePlay={toggleReplay}
+            onSeek={seekReplay}
+            onSpeedChange={setReplaySpeed}
+            onClose={() => dispatch('close')}
+          />
         )}
+
+        <TouchControls onIntentChange={(intent, active) => inputManagerRef.current.setTouchIntent(intent, active)} />
       </div>
-      
-      {gameStarted && (
+
+      {isRunInProgress(phase) && (
         <div className="text-white text-sm">
-          <p>A/D: Move • SPACE: Shoot</p>
-          <p>R: Restart (works anytime)</p>
+          <p>
+            {formatBinding(keyBindings, 'left')}/{formatBinding(keyBindings, 'right')}: Move
+            {' • '}{formatBinding(keyBindings, 'fire')}: Shoot
+            {' • '}{formatBinding(keyBindings, 'pause')}: Pause
+          </p>
+          <p>{formatBinding(keyBindings, 'restart')}: Restart</p>
         </div>
       )}
+
+      <KeyBindingsPanel bindings={keyBindings} onRebind={handleRebind} onReset={handleResetBindings} />
+
+      <EffectsPanel settings={effectSettings} onChange={handleEffectSettingsChange} />
+
+      <AudioPanel settings={audioSettings} onChange={handleAudioSettingsChange} />
+
+      <ReplayPanel
+        lastReplay={lastReplay}
+        personalBests={personalBests}
+        raceGhost={raceGhost}
+        disabled={isRunInProgress(phase) || isBusy(phase)}
+        onRaceGhostChange={handleRaceGhostChange}
+        onWatch={watchReplay}
+        onExport={downloadReplay}
+        onImport={importReplay}
+      />
+
+      <DailyLeaderboard board={dailyBoard} playerAddress={playerAddress} />
+
+      {playerAddress && <AchievementsPanel achievements={achievements} />}
+
+      {playerAddress && (
+        <SubmissionHistory sessions={completedSessions} onRetry={retrySubmission} />
+      )}
     </div>
   );
 }
\ No newline at end of file
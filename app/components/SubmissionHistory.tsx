@@ -0,0 +1,59 @@
+"use client";
+import { CompletedGameSession, SubmissionStatus } from '../lib/secure-auth';
+
+interface SubmissionHistoryProps {
+  sessions: CompletedGameSession[];
+  onRetry: (gameSessionId: string) => void;
+}
+
+const STATUS_STYLES: Record<SubmissionStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'text-yellow-400' },
+  submitted: { label: 'Submitted', className: 'text-blue-400' },
+  confirmed: { label: 'Confirmed', className: 'text-green-400' },
+  failed: { label: 'Failed', className: 'text-red-400' },
+};
+
+export default function SubmissionHistory({ sessions, onRetry }: SubmissionHistoryProps) {
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-md bg-gray-900 text-white p-3 rounded-lg border border-gray-700 text-xs">
+      <h3 className="font-bold text-sm mb-2">Score Submissions</h3>
+      <div className="space-y-1">
+        {sessions.map(session => {
+          const style = STATUS_STYLES[session.status];
+
+          return (
+            <div key={session.gameSessionId} className="flex items-center justify-between gap-2">
+              <span>Score: {session.finalScore}</span>
+              <span className={style.className} title={session.error}>
+                {style.label}
+              </span>
+              {session.transactionHash ? (
+                <a
+                  href={`https://testnet.monadscan.com/tx/${session.transactionHash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono text-gray-400 hover:text-white"
+                >
+                  {session.transactionHash.slice(0, 10)}...
+                </a>
+              ) : session.status === 'failed' ? (
+                <button
+                  onClick={() => onRetry(session.gameSessionId)}
+                  className="bg-blue-600 px-2 py-1 rounded hover:bg-blue-700"
+                >
+                  Retry
+                </button>
+              ) : (
+                <span className="text-gray-500">—</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+import { useEffect, useState } from 'react';
+import { HeldIntent } from '../lib/input/key-bindings';
+
+interface TouchControlsProps {
+  onIntentChange: (intent: HeldIntent, active: boolean) => void;
+}
+
+const BUTTONS: Array<{ intent: HeldIntent; label: string; className: string }> = [
+  { intent: 'left', label: '◀', className: 'bg-gray-700' },
+  { intent: 'fire', label: 'FIRE', className: 'bg-red-700 flex-1' },
+  { intent: 'right', label: '▶', className: 'bg-gray-700' },
+];
+
+// On-screen controls, only shown on touch devices
+export default function TouchControls({ onIntentChange }: TouchControlsProps) {
+  const [isTouchDevice, setIsTouchDevice] = useState(false);
+
+  useEffect(() => {
+    setIsTouchDevice(navigator.maxTouchPoints > 0 || 'ontouchstart' in window);
+  }, []);
+
+  if (!isTouchDevice) {
+    return null;
+  }
+
+  return (
+    <div className="flex w-full max-w-md gap-3 select-none touch-none">
+      {BUTTONS.map(({ intent, label, className }) => (
+        <button
+          key={intent}
+          className={`${className} text-white font-bold text-xl py-5 px-6 rounded-lg active:opacity-70`}
+          onPointerDown={e => {
+            // Keep receiving this pointer's events even if the finger slides off the button
+            e.currentTarget.setPointerCapture(e.pointerId);
+            onIntentChange(intent, true);
+          }}
+          onPointerUp={() => onIntentChange(intent, false)}
+          onPointerCancel={() => onIntentChange(intent, false)}
+          onContextMenu={e => e.preventDefault()}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
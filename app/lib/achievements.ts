@@ -0,0 +1,105 @@
+// Achievements, unlocked on the server from the validated stats of a finished run. Only runs
+// without cheating evidence count, and each wallet keeps its unlocks.
+
+import type { DailyRun } from './daily-challenge';
+
+export type AchievementId = 'first_boss' | 'hundred_kills' | 'sharpshooter' | 'daily_regular';
+
+export interface Achievement {
+  id: AchievementId;
+  name: string;
+  description: string;
+}
+
+export interface AchievementStatus extends Achievement {
+  unlockedAt: number | null;
+}
+
+// What a finished run is judged on; the stats from getSessionStats
+export interface AchievementRun {
+  enemiesKilled: number;
+  shotsFired: number;
+  accuracy: number; // Percent
+  bossesDefeated: number;
+  players: number;
+  daily: DailyRun | null;
+}
+
+interface PlayerRecord {
+  unlocked: Map<AchievementId, number>; // Unlock time of each achievement
+  dailyDates: Set<string>; // Days the player finished a daily challenge run
+}
+
+const SHARPSHOOTER_MIN_SHOTS = 100; // So a handful of lucky shots doesn't count
+const DAILY_REGULAR_DAYS = 10;
+
+// A co-op partner plays without a wallet of their own, so only solo runs count towards the
+// single-run achievements
+const ACHIEVEMENTS: Array<Achievement & { isEarned: (run: AchievementRun, record: PlayerRecord) => boolean }> = [
+  {
+    id: 'first_boss',
+    name: 'Giant Slayer',
+    description: 'Defeat a boss',
+    isEarned: run => run.players === 1 && run.bossesDefeated > 0,
+  },
+  {
+    id: 'hundred_kills',
+    name: 'Centurion',
+    description: 'Destroy 100 enemies in one run',
+    isEarned: run => run.players === 1 && run.enemiesKilled >= 100,
+  },
+  {
+    id: 'sharpshooter',
+    name: 'Sharpshooter',
+    description: `Finish a run of at least ${SHARPSHOOTER_MIN_SHOTS} shots with 90% accuracy`,
+    isEarned: run => run.players === 1 && run.shotsFired >= SHARPSHOOTER_MIN_SHOTS && run.accuracy >= 90,
+  },
+  {
+    id: 'daily_regular',
+    name: 'Regular',
+    description: `Play the daily challenge on ${DAILY_REGULAR_DAYS} different days`,
+    isEarned: (_run, record) => record.dailyDates.size >= DAILY_REGULAR_DAYS,
+  },
+];
+
+// In-memory storage (use Redis/database in production), keyed by lowercased address
+const playerRecords = new Map<string, PlayerRecord>();
+
+function getRecord(playerAddress: string): PlayerRecord {
+  const key = playerAddress.toLowerCase();
+  let record = playerRecords.get(key);
+  if (!record) {
+    record = { unlocked: new Map(), dailyDates: new Set() };
+    playerRecords.set(key, record);
+  }
+  return record;
+}
+
+// Count a finished run towards the player's achievements; returns the ones it unlocked
+export function recordAchievements(playerAddress: string, run: AchievementRun): Achievement[] {
+  const record = getRecord(playerAddress);
+  if (run.daily) {
+    record.dailyDates.add(run.daily.date);
+  }
+
+  const now = Date.now();
+  const unlocked: Achievement[] = [];
+  for (const { id, name, description, isEarned } of ACHIEVEMENTS) {
+    if (!record.unlocked.has(id) && isEarned(run, record)) {
+      record.unlocked.set(id, now);
+      unlocked.push({ id, name, description });
+    }
+  }
+  return unlocked;
+}
+
+// Every achievement, with when the player unlocked it
+export function getAchievements(playerAddress: string): AchievementStatus[] {
+  const record = playerRecords.get(playerAddress.toLowerCase());
+  return ACHIEVEMENTS.map(({ id, name, description }) => ({
+    id,
+    name,
+    description,
+    unlockedAt: record?.unlocked.get(id) ?? null,
+  }));
+}
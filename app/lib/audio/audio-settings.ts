@@ -0,0 +1,60 @@
+// Volume levels and mute, saved in localStorage so they survive reloads.
+
+export type VolumeChannel = 'master' | 'sfx' | 'music';
+
+export interface AudioSettings {
+  volumes: Record<VolumeChannel, number>; // 0 to 1
+  muted: boolean;
+}
+
+export const VOLUME_CHANNELS: VolumeChannel[] = ['master', 'sfx', 'music'];
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  volumes: { master: 0.8, sfx: 0.8, music: 0.5 },
+  muted: false,
+};
+
+export const VOLUME_LABELS: Record<VolumeChannel, string> = {
+  master: 'Master',
+  sfx: 'Sound effects',
+  music: 'Music',
+};
+
+const STORAGE_KEY = 'spaceShooter.audio';
+
+export function loadAudioSettings(): AudioSettings {
+  if (typeof window === 'undefined') {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') {
+      return DEFAULT_AUDIO_SETTINGS;
+    }
+
+    // Fall back to the default for any level that is missing or out of range
+    const volumes = { ...DEFAULT_AUDIO_SETTINGS.volumes };
+    for (const channel of VOLUME_CHANNELS) {
+      const volume = saved.volumes?.[channel];
+      if (typeof volume === 'number' && volume >= 0 && volume <= 1) {
+        volumes[channel] = volume;
+      }
+    }
+    return {
+      volumes,
+      muted: typeof saved.muted === 'boolean' ? saved.muted : DEFAULT_AUDIO_SETTINGS.muted,
+    };
+  } catch (error) {
+    console.warn('Ignoring unreadable audio settings:', error);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save audio settings:', error);
+  }
+}
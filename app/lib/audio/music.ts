@@ -0,0 +1,75 @@
+// A short looping soundtrack: a bass line under an arpeggio, sequenced a little ahead of
+// the audio clock so timer jitter never makes it stutter.
+
+const BEATS_PER_MINUTE = 132;
+const STEP_SECONDS = 60 / BEATS_PER_MINUTE / 2; // Eighth notes
+const SCHEDULE_AHEAD_SECONDS = 0.15;
+const SCHEDULER_INTERVAL_MS = 25;
+
+// MIDI note numbers per step; 0 is a rest
+const BASS = [45, 0, 45, 45, 41, 0, 41, 41, 43, 0, 43, 43, 40, 0, 40, 43];
+const LEAD = [69, 72, 76, 72, 65, 69, 72, 69, 67, 71, 74, 71, 64, 68, 71, 76];
+
+function midiToHz(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+function playNote(ctx: AudioContext, output: AudioNode, type: OscillatorType, note: number, volume: number, start: number): void {
+  const oscillator = ctx.createOscillator();
+  oscillator.type = type;
+  oscillator.frequency.value = midiToHz(note);
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(volume, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + STEP_SECONDS * 0.9);
+
+  oscillator.connect(gain);
+  gain.connect(output);
+  oscillator.start(start);
+  oscillator.stop(start + STEP_SECONDS);
+}
+
+export class MusicLoop {
+  private ctx: AudioContext;
+  private output: AudioNode;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private step = 0;
+  private nextStepAt = 0;
+
+  constructor(ctx: AudioContext, output: AudioNode) {
+    this.ctx = ctx;
+    this.output = output;
+  }
+
+  isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  start(): void {
+    if (this.timer !== null) {
+      return;
+    }
+    this.nextStepAt = this.ctx.currentTime + 0.05;
+    this.timer = setInterval(this.schedule, SCHEDULER_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule = (): void => {
+    while (this.nextStepAt < this.ctx.currentTime + SCHEDULE_AHEAD_SECONDS) {
+      const bass = BASS[this.step % BASS.length];
+      if (bass) {
+        playNote(this.ctx, this.output, 'triangle', bass, 0.35, this.nextStepAt);
+      }
+      playNote(this.ctx, this.output, 'square', LEAD[this.step % LEAD.length], 0.05, this.nextStepAt);
+
+      this.step = (this.step + 1) % BASS.length;
+      this.nextStepAt += STEP_SECONDS;
+    }
+  };
+}
@@ -0,0 +1,100 @@
+// Sound effects synthesized on the fly from oscillators and noise, so nothing is downloaded.
+// Each effect schedules its own short-lived nodes into the given output.
+
+export type SoundEffect = 'laser' | 'hit' | 'explosion' | 'big_explosion' | 'player_hit' | 'power_up' | 'game_over';
+
+type Synth = (ctx: AudioContext, output: AudioNode, noise: AudioBuffer) => void;
+
+// A gain envelope that jumps to a peak and decays to silence
+function envelope(ctx: AudioContext, output: AudioNode, peak: number, duration: number, start = ctx.currentTime): GainNode {
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(peak, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  gain.connect(output);
+  return gain;
+}
+
+function tone(
+  ctx: AudioContext,
+  output: AudioNode,
+  type: OscillatorType,
+  fromHz: number,
+  toHz: number,
+  peak: number,
+  duration: number,
+  start = ctx.currentTime
+): void {
+  const oscillator = ctx.createOscillator();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(fromHz, start);
+  oscillator.frequency.exponentialRampToValueAtTime(toHz, start + duration);
+  oscillator.connect(envelope(ctx, output, peak, duration, start));
+  oscillator.start(start);
+  oscillator.stop(start + duration);
+}
+
+function noiseBurst(
+  ctx: AudioContext,
+  output: AudioNode,
+  noise: AudioBuffer,
+  filterType: BiquadFilterType,
+  fromHz: number,
+  toHz: number,
+  peak: number,
+  duration: number
+): void {
+  const source = ctx.createBufferSource();
+  source.buffer = noise;
+  const filter = ctx.createBiquadFilter();
+  filter.type = filterType;
+  filter.frequency.setValueAtTime(fromHz, ctx.currentTime);
+  filter.frequency.exponentialRampToValueAtTime(toHz, ctx.currentTime + duration);
+  source.connect(filter);
+  filter.connect(envelope(ctx, output, peak, duration));
+  source.start();
+  source.stop(ctx.currentTime + duration);
+}
+
+const SYNTHS: Record<SoundEffect, Synth> = {
+  laser: (ctx, output) => tone(ctx, output, 'square', 1400, 300, 0.08, 0.1),
+  hit: (ctx, output, noise) => {
+    tone(ctx, output, 'triangle', 900, 500, 0.15, 0.05);
+    noiseBurst(ctx, output, noise, 'highpass', 3000, 2000, 0.1, 0.04);
+  },
+  explosion: (ctx, output, noise) => {
+    noiseBurst(ctx, output, noise, 'lowpass', 2400, 120, 0.5, 0.4);
+    tone(ctx, output, 'sine', 160, 40, 0.3, 0.3);
+  },
+  big_explosion: (ctx, output, noise) => {
+    noiseBurst(ctx, output, noise, 'lowpass', 3000, 60, 0.8, 1.4);
+    tone(ctx, output, 'sine', 120, 25, 0.6, 1.2);
+  },
+  player_hit: (ctx, output, noise) => {
+    tone(ctx, output, 'sawtooth', 300, 80, 0.25, 0.3);
+    noiseBurst(ctx, output, noise, 'bandpass', 1200, 300, 0.3, 0.25);
+  },
+  power_up: (ctx, output) => {
+    [523, 659, 784, 1047].forEach((hz, i) => {
+      tone(ctx, output, 'sine', hz, hz * 1.01, 0.2, 0.12, ctx.currentTime + i * 0.07);
+    });
+  },
+  game_over: (ctx, output) => {
+    [392, 330, 262, 196].forEach((hz, i) => {
+      tone(ctx, output, 'sawtooth', hz, hz * 0.97, 0.15, 0.35, ctx.currentTime + i * 0.3);
+    });
+  },
+};
+
+// One second of white noise, shared by every noise-based effect
+export function createNoiseBuffer(ctx: AudioContext): AudioBuffer {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.random() * 2 - 1;
+  }
+  return buffer;
+}
+
+export function playSoundEffect(ctx: AudioContext, output: AudioNode, noise: AudioBuffer, effect: SoundEffect): void {
+  SYNTHS[effect](ctx, output, noise);
+}
@@ -0,0 +1,134 @@
+// Game audio: sound effects and music mixed through master, SFX and music gains.
+// Browsers only allow audio after a user gesture, so nothing is created until unlock().
+
+import { GameEvent } from '../game/types';
+import { AudioSettings } from './audio-settings';
+import { MusicLoop } from './music';
+import { SoundEffect, createNoiseBuffer, playSoundEffect } from './sound-effects';
+
+interface AudioGraph {
+  ctx: AudioContext;
+  master: GainNode;
+  sfx: GainNode;
+  music: GainNode;
+  noise: AudioBuffer;
+  loop: MusicLoop;
+}
+
+export class SoundEngine {
+  private settings: AudioSettings;
+  private graph: AudioGraph | null = null;
+  private wantsMusic = false;
+
+  constructor(settings: AudioSettings) {
+    this.settings = settings;
+  }
+
+  // Call from a user gesture (a click or key press) before anything should be heard
+  unlock(): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    if (!this.graph) {
+      const AudioContextClass = window.AudioContext ??
+        (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+      if (!AudioContextClass) {
+        return;
+      }
+
+      const ctx = new AudioContextClass();
+      const master = ctx.createGain();
+      const sfx = ctx.createGain();
+      const music = ctx.createGain();
+      sfx.connect(master);
+      music.connect(master);
+      master.connect(ctx.destination);
+
+      this.graph = { ctx, master, sfx, music, noise: createNoiseBuffer(ctx), loop: new MusicLoop(ctx, music) };
+      this.applySettings();
+    }
+
+    if (this.graph.ctx.state === 'suspended') {
+      this.graph.ctx.resume();
+    }
+  }
+
+  setSettings(settings: AudioSettings): void {
+    this.settings = settings;
+    this.applySettings();
+  }
+
+  play(effect: SoundEffect): void {
+    if (!this.graph || this.settings.muted) {
+      return;
+    }
+    playSoundEffect(this.graph.ctx, this.graph.sfx, this.graph.noise, effect);
+  }
+
+  startMusic(): void {
+    this.wantsMusic = true;
+    this.updateMusic();
+  }
+
+  stopMusic(): void {
+    this.wantsMusic = false;
+    this.updateMusic();
+  }
+
+  // Play the sounds for what happened during a simulation step
+  handleEvents(events: GameEvent[]): void {
+    for (const event of events) {
+      switch (event.type) {
+        case 'shot_fired':
+          this.play('laser');
+          break;
+        case 'enemy_hit':
+          this.play('hit');
+          break;
+        case 'enemy_killed':
+          this.play('explosion');
+          break;
+        case 'boss_defeated':
+          this.play('big_explosion');
+          break;
+        case 'power_up_collected':
+          this.play('power_up');
+          break;
+        case 'player_hit':
+          this.play('player_hit');
+          break;
+        case 'player_died':
+          this.play('game_over');
+          break;
+      }
+    }
+  }
+
+  private applySettings(): void {
+    if (!this.graph) {
+      return;
+    }
+
+    const { volumes, muted } = this.settings;
+    const now = this.graph.ctx.currentTime;
+    this.graph.master.gain.setValueAtTime(muted ? 0 : volumes.master, now);
+    this.graph.sfx.gain.setValueAtTime(volumes.sfx, now);
+    this.graph.music.gain.setValueAtTime(volumes.music, now);
+    this.updateMusic();
+  }
+
+  // The music only runs while it is wanted and can be heard
+  private updateMusic(): void {
+    if (!this.graph) {
+      return;
+    }
+
+    const audible = !this.settings.muted && this.settings.volumes.music > 0;
+    if (this.wantsMusic && audible) {
+      this.graph.loop.start();
+    } else {
+      this.graph.loop.stop();
+    }
+  }
+}
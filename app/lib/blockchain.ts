@@ -1,4 +1,4 @@
-import { createPublicClient, http } from 'viem';
+import { createPublicClient, http, TransactionReceiptNotFoundError } from 'viem';
 import { monadTestnet } from 'viem/chains';
 import { GAME_CONTRACT_ABI } from './contract-abi';
 
@@ -73,4 +73,22 @@ export async function getPlayerDataPerGame(playerAddress: string, gameAddress: s
     console.error('Error reading player data per game:', error);
     throw new Error('Failed to read player data per game from contract');
   }
-}
\ No newline at end of file
+}
+
+// Helper function to check whether a submitted transaction has been mined
+export async function getTransactionStatus(transactionHash: string): Promise<'pending' | 'confirmed' | 'failed'> {
+  try {
+    const receipt = await publicClient.getTransactionReceipt({
+      hash: transactionHash as `0x${string}`
+    });
+
+    return receipt.status === 'success' ? 'confirmed' : 'failed';
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      return 'pending';
+    }
+
+    console.error('Error reading transaction receipt:', error);
+    throw new Error('Failed to read transaction receipt');
+  }
+}
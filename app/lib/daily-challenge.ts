@@ -0,0 +1,117 @@
+// Daily challenge: every player gets the same seeds for the UTC day, the first run each day
+// is the ranked one, and each day has its own leaderboard kept apart from free play.
+
+import crypto from 'crypto';
+
+// The seeds are keyed with the server secret so nobody can work out tomorrow's spawns ahead of time
+const DAILY_SEED_SECRET = process.env.API_SECRET;
+
+if (!DAILY_SEED_SECRET) {
+  throw new Error('API_SECRET environment variable is required');
+}
+
+const LEADERBOARD_RETENTION_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyRun {
+  date: string; // UTC date the run was started on, YYYY-MM-DD
+  ranked: boolean; // Only the first run of the day counts on the leaderboard
+}
+
+export interface DailyLeaderboardEntry {
+  rank: number;
+  playerAddress: string;
+  score: number;
+  enemiesKilled: number;
+  completedAt: number;
+}
+
+// In-memory storage (use Redis/database in production), keyed by date
+const rankedAttempts = new Map<string, Set<string>>();
+const leaderboards = new Map<string, Map<string, Omit<DailyLeaderboardEntry, 'rank'>>>();
+
+// Drop days that have fallen out of the retention window every hour
+setInterval(() => {
+  const oldest = getChallengeDate(Date.now() - LEADERBOARD_RETENTION_DAYS * DAY_MS);
+
+  for (const date of rankedAttempts.keys()) {
+    if (date < oldest) {
+      rankedAttempts.delete(date);
+    }
+  }
+
+  for (const date of leaderboards.keys()) {
+    if (date < oldest) {
+      leaderboards.delete(date);
+    }
+  }
+}, 60 * 60 * 1000);
+
+// Addresses differ in case between checksummed and plain forms; one wallet gets one attempt
+function attemptKey(playerAddress: string): string {
+  return playerAddress.toLowerCase();
+}
+
+export function getChallengeDate(now: number = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export function isChallengeDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+// The spawn seed for a day, the same for every player
+export function getDailySpawnSeed(date: string): number {
+  const digest = crypto.createHmac('sha256', DAILY_SEED_SECRET as string).update(`daily:${date}`).digest();
+  return digest.readUInt32BE(4);
+}
+
+export function hasRankedAttempt(date: string, playerAddress: string): boolean {
+  return rankedAttempts.get(date)?.has(attemptKey(playerAddress)) ?? false;
+}
+
+// Use up the day's ranked attempt. Starting a run claims it, so abandoning a bad start
+// doesn't earn another try. Returns false if it was already used.
+export function claimRankedAttempt(date: string, playerAddress: string): boolean {
+  let attempts = rankedAttempts.get(date);
+  if (!attempts) {
+    attempts = new Set();
+    rankedAttempts.set(date, attempts);
+  }
+
+  const key = attemptKey(playerAddress);
+  if (attempts.has(key)) {
+    return false;
+  }
+
+  attempts.add(key);
+  return true;
+}
+
+export function recordDailyScore(
+  date: string,
+  playerAddress: string,
+  score: number,
+  enemiesKilled: number
+): void {
+  let leaderboard = leaderboards.get(date);
+  if (!leaderboard) {
+    leaderboard = new Map();
+    leaderboards.set(date, leaderboard);
+  }
+
+  leaderboard.set(attemptKey(playerAddress), { playerAddress, score, enemiesKilled, completedAt: Date.now() });
+}
+
+// Highest score first; ties go to whoever finished first
+export function getDailyLeaderboard(date: string): DailyLeaderboardEntry[] {
+  const entries = Array.from(leaderboards.get(date)?.values() ?? []);
+  entries.sort((a, b) => b.score - a.score || a.completedAt - b.completedAt);
+  return entries.map((entry, index) => ({ rank: index + 1, ...entry }));
+}
+
+export function getDailyRank(date: string, playerAddress: string): number | null {
+  const key = attemptKey(playerAddress);
+  const entry = getDailyLeaderboard(date).find(e => attemptKey(e.playerAddress) === key);
+  return entry ? entry.rank : null;
+}
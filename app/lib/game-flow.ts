@@ -0,0 +1,61 @@
+// The phases a game goes through from the menu to a submitted score. Every phase lists the
+// events it accepts; anything else (a restart mid-submission, a pause on the menu) is ignored.
+
+export type GamePhase =
+  | 'menu'
+  | 'authenticating'
+  | 'matchmaking' // Waiting on the versus relay for an opponent
+  | 'starting_session'
+  | 'playing'
+  | 'paused'
+  | 'game_over'
+  | 'submitting_score'
+  | 'submitted'
+  | 'watching_replay';
+
+export type GameFlowEvent =
+  | 'start'
+  | 'authenticated'
+  | 'queue' // Signed in for a versus race; look for an opponent
+  | 'matched'
+  | 'cancel'
+  | 'session_started'
+  | 'pause'
+  | 'resume'
+  | 'end' // The player died or gave up the run
+  | 'submit'
+  | 'submitted'
+  | 'failed'
+  | 'watch' // Open the replay viewer
+  | 'close';
+
+const TRANSITIONS: Record<GamePhase, Partial<Record<GameFlowEvent, GamePhase>>> = {
+  menu: { start: 'authenticating', watch: 'watching_replay' },
+  authenticating: { authenticated: 'starting_session', queue: 'matchmaking', failed: 'menu' },
+  matchmaking: { matched: 'starting_session', cancel: 'menu', failed: 'menu' },
+  starting_session: { session_started: 'playing', failed: 'menu' },
+  playing: { pause: 'paused', end: 'game_over' },
+  paused: { resume: 'playing', end: 'game_over' },
+  game_over: { start: 'authenticating', submit: 'submitting_score', watch: 'watching_replay' },
+  submitting_score: { submitted: 'submitted', failed: 'game_over' },
+  submitted: { start: 'authenticating', watch: 'watching_replay' },
+  watching_replay: { watch: 'watching_replay', close: 'menu' },
+};
+
+// The phase an event leads to, or null if the current phase doesn't accept it
+export function getNextPhase(phase: GamePhase, event: GameFlowEvent): GamePhase | null {
+  return TRANSITIONS[phase][event] ?? null;
+}
+
+// Phases in which a run is on screen, whether or not it is moving
+export function isRunInProgress(phase: GamePhase): boolean {
+  return phase === 'playing' || phase === 'paused';
+}
+
+// Phases in which the player is waiting on the wallet or the server
+export function isBusy(phase: GamePhase): boolean {
+  return phase === 'authenticating' ||
+    phase === 'matchmaking' ||
+    phase === 'starting_session' ||
+    phase === 'submitting_score';
+}
@@ -1,73 +1,531 @@
 // Server-side game session tracking and validation
 
+import crypto from 'crypto';
+import { PLAYER_INVULNERABLE_TICKS, PLAYER_LIVES, PLAYER_MAX_HEALTH, TICK_MS, TICK_RATE } from './game/constants';
+import { simulateRun } from './game/simulation';
+import { RunRecording, isValidRunRecording } from './game/input-log';
+import { ComboState, breakCombo, createCombo, scoreComboKill } from './game/combo';
+import { DAILY_CHALLENGE_DIFFICULTY, Difficulty, applyScoreMultiplier } from './game/difficulty';
+import { DailyRun, claimRankedAttempt, getChallengeDate, getDailySpawnSeed, recordDailyScore } from './daily-challenge';
+import { VersusPairing, getVersusSpawnSeed } from './versus';
+import { ENEMY_ARCHETYPES } from './game/enemies';
+import {
+  POWER_UPS,
+  PowerUpType,
+  RAPID_FIRE_COOLDOWN_TICKS,
+  SPREAD_SHOT_DRIFT,
+  getDropExpiryTick,
+  isPowerUpType,
+} from './game/power-ups';
+import { SpawnScheduleState, SpawnToken, createSpawnSchedule, generateSpawns, getSpawnExpiryTick } from './game/spawns';
+import { getWaveAtTick, getWaveSettings } from './game/waves';
+
 interface GameAction {
-  type: 'shot_fired' | 'enemy_killed' | 'game_started' | 'game_ended';
+  type:
+    | 'shot_fired'
+    | 'enemy_killed'
+    | 'boss_defeated'
+    | 'power_up_collected'
+    | 'power_up_expired'
+    | 'player_hit'
+    | 'pause'
+    | 'resume'
+    | 'game_started'
+    | 'game_ended';
   timestamp: number;
+  activeTime: number; // Unpaused time since the session started
+  tick: number; // Game tick the action happened on
   data?: Record<string, unknown>;
 }
 
+// On-chain submission state; a session is credited at most once
+type SubmissionState =
+  | { status: 'unsubmitted' }
+  | { status: 'in_flight'; startedAt: number; transactionHash?: string } // Hash once the write has gone out
+  | { status: 'submitted'; transactionHash: string; submittedAt: number };
+
+// Recorded when a client's claims disagree with what the server can reproduce
+interface CheatingEvidence {
+  type: 'replay_too_long' | 'replay_mismatch' | 'unexplained_death';
+  timestamp: number;
+  details: Record<string, unknown>;
+}
+
+interface IssuedEnemy {
+  spawn: SpawnToken;
+  killedAtTick: number | null;
+  killedBy: number | null; // Index of the ship credited with the kill
+  dropCollected: boolean;
+}
+
+// A versus match as seen by this server: the sessions its players started and how they finished
+interface VersusMatch {
+  pairing: VersusPairing;
+  sessions: Map<string, string>; // Lowercased player address -> session id
+  results: Map<string, { score: number; ticks: number; clean: boolean }>;
+  createdAt: number;
+}
+
+export type VersusStatus = 'waiting' | 'playing' | 'finished' | 'disqualified' | 'forfeited';
+
+export interface VersusStanding {
+  playerAddress: string;
+  status: VersusStatus;
+  score: number | null; // Replayed score once finished
+}
+
+export interface VersusOutcome {
+  matchId: string;
+  decided: boolean; // Once neither player can change the result
+  winner: string | null; // Null until decided, and on a draw
+  standings: VersusStanding[];
+  spawnSeed?: number; // Shared by both runs, so revealed only once decided
+}
+
 interface GameSession {
   playerAddress: string;
   sessionId: string;
+  difficulty: Difficulty;
+  daily: DailyRun | null; // Set for daily challenge runs, which are ranked apart from free play
+  // Ships in the run. A co-op partner plays on the host's screen without a wallet of
+  // their own, so the team score is credited to the host; playerScores records who earned it.
+  players: number;
+  versus: string | null; // Match id for head-to-head runs
+  // Kept server-side; the client only learns spawns as they are handed out
+  spawnSeed: number;
+  spawnSchedule: SpawnScheduleState;
+  enemies: Map<number, IssuedEnemy>;
+  waveKills: Map<number, number>;
+  combo: ComboState;
+  powerUps: Array<Map<PowerUpType, number>>; // Per ship: timed power-ups and the tick they run out on
   startTime: number;
+  pausedAt: number | null;
+  pausedTotal: number; // Time spent in finished pauses
   lastAction: number;
+  lastActionTicks: number[]; // Per ship, as each reports its own actions
+  lastShotTicks: Array<number | null>;
   actions: GameAction[];
   score: number;
+  playerScores: number[]; // Each ship's share of the score, not counting wave clear bonuses
   enemiesKilled: number;
+  hitpointsDestroyed: number; // Every hit takes one shot, so this can never pass shotsFired
   shotsFired: number;
+  hitsLanded: number; // Bullets that hit an enemy, known once the run is replayed
+  playerHits: number;
+  lastHitTicks: Array<number | null>; // Per ship, as each has its own invulnerability
+  extraLives: number; // Collected from extra life power-ups
   isActive: boolean;
+  submission: SubmissionState;
+  replay?: RunRecording;
+  evidence: CheatingEvidence[];
 }
 
 // In-memory session storage (use Redis/database in production)
 const activeSessions = new Map<string, GameSession>();
+const versusMatches = new Map<string, VersusMatch>();
 
 // Game validation constants
 const GAME_LIMITS = {
   MAX_SHOTS_PER_SECOND: 10, // Maximum shots per second
-  MAX_KILLS_PER_SECOND: 5,  // Maximum kills per second
-  MIN_TIME_BETWEEN_ACTIONS: 50, // Minimum 50ms between actions
+  RAPID_FIRE_SHOTS_PER_SECOND: 15, // While the rapid fire power-up is active
+  MIN_TIME_BETWEEN_SHOTS: 50, // Minimum 50ms of game time between a ship's shots
+  KILL_RATE_WINDOW: 3000, // Kills come in bursts, such as a spread shot through a formation, so their rate is averaged
   MAX_SESSION_DURATION: 30 * 60 * 1000, // 30 minutes max session
-  POINTS_PER_KILL: 10,
-  MAX_SCORE_PER_SESSION: 10000, // Reasonable max score
+  CLOCK_TOLERANCE: 2000, // Slack for latency between session start and the first tick
+  SPAWN_LOOKAHEAD_TICKS: 10 * TICK_RATE, // Spawns are handed out at most 10 seconds ahead
+  SUBMISSION_CLAIM_TIMEOUT: 5 * 60 * 1000, // A write that hasn't come back by now is given up, well past viem's request timeouts
+  SUBMITTED_SESSION_RETENTION: 24 * 60 * 60 * 1000, // Sessions sent on-chain outlive their expiry so retries still find the transaction
+};
+
+// Limits that depend on the session's mode: harder modes field denser waves and score more
+const DIFFICULTY_LIMITS: Record<Difficulty, {
+  MAX_KILLS_PER_SECOND: number;
+  KILLS_PER_SECOND_PER_WAVE: number;
+  MAX_SCORE_PER_SESSION: number;
+  SCORE_CEILING_PER_WAVE: number;
+}> = {
+  easy: {
+    MAX_KILLS_PER_SECOND: 5, // Maximum kills per second on wave 1
+    KILLS_PER_SECOND_PER_WAVE: 0.5, // Later waves field denser formations
+    MAX_SCORE_PER_SESSION: 5000, // Reasonable max score on wave 1
+    SCORE_CEILING_PER_WAVE: 500, // Extra headroom for each wave reached
+  },
+  normal: {
+    MAX_KILLS_PER_SECOND: 5,
+    KILLS_PER_SECOND_PER_WAVE: 0.5,
+    MAX_SCORE_PER_SESSION: 10000,
+    SCORE_CEILING_PER_WAVE: 1000,
+  },
+  hard: {
+    MAX_KILLS_PER_SECOND: 6,
+    KILLS_PER_SECOND_PER_WAVE: 0.6,
+    MAX_SCORE_PER_SESSION: 15000,
+    SCORE_CEILING_PER_WAVE: 1500,
+  },
 };
 
+const MAX_SESSION_TICKS = Math.floor(GAME_LIMITS.MAX_SESSION_DURATION / TICK_MS);
+
+// Every boss hitpoint takes a bullet; even with rapid fire and spread shot the ship
+// can only fire so many
+const MIN_BOSS_FIGHT_TICKS =
+  Math.ceil(ENEMY_ARCHETYPES.boss.hitpoints / SPREAD_SHOT_DRIFT.length) * RAPID_FIRE_COOLDOWN_TICKS;
+
+// Plausibility ceilings for the mode and the wave the session has reached. Two ships can
+// kill and score twice as fast as one.
+function getWaveLimits(
+  wave: number,
+  difficulty: Difficulty,
+  players: number
+): { maxKillsPerSecond: number; maxScore: number } {
+  const limits = DIFFICULTY_LIMITS[difficulty];
+  return {
+    maxKillsPerSecond: Math.floor(limits.MAX_KILLS_PER_SECOND + limits.KILLS_PER_SECOND_PER_WAVE * (wave - 1)) * players,
+    maxScore: (limits.MAX_SCORE_PER_SESSION + limits.SCORE_CEILING_PER_WAVE * (wave - 1)) * players,
+  };
+}
+
+// Time the session has been running, leaving out pauses. The game clock stands still while
+// paused, so every timing check is made against this rather than wall-clock time.
+function getActiveTime(session: GameSession, now: number): number {
+  const currentPause = session.pausedAt !== null ? now - session.pausedAt : 0;
+  return now - session.startTime - session.pausedTotal - currentPause;
+}
+
 // Clean up expired sessions every 5 minutes
 setInterval(() => {
   const now = Date.now();
   
   for (const [sessionId, session] of activeSessions.entries()) {
-    if (now - session.lastAction > GAME_LIMITS.MAX_SESSION_DURATION) {
+    // Keep sessions mid-submission so their state can't be lost under a concurrent retry,
+    // unless the write has hung
+    if (session.submission.status === 'in_flight' &&
+        now - session.submission.startedAt <= GAME_LIMITS.SUBMISSION_CLAIM_TIMEOUT) {
+      continue;
+    }
+
+    const retention = session.submission.status !== 'unsubmitted' && session.submission.transactionHash
+      ? GAME_LIMITS.SUBMITTED_SESSION_RETENTION
+      : GAME_LIMITS.MAX_SESSION_DURATION;
+    if (now - session.lastAction > retention) {
       activeSessions.delete(sessionId);
     }
   }
+
+  // A match is decided well within two session lifetimes
+  for (const [matchId, match] of versusMatches.entries()) {
+    if (now - match.createdAt > 2 * GAME_LIMITS.MAX_SESSION_DURATION) {
+      versusMatches.delete(matchId);
+    }
+  }
 }, 5 * 60 * 1000);
 
-export function createGameSession(playerAddress: string): string {
+interface SessionStart {
+  sessionId: string;
+  difficulty: Difficulty;
+  daily: DailyRun | null;
+  players: number;
+  versus: string | null;
+  spawns: SpawnToken[];
+  spawnHorizon: number;
+}
+
+export function createGameSession(playerAddress: string, difficulty: Difficulty, isDaily = false, players = 1): SessionStart {
+  let spawnSeed = crypto.randomBytes(4).readUInt32BE(0);
+  let daily: DailyRun | null = null;
+
+  // Daily runs share the day's spawns and mode; only the first one of the day is ranked
+  if (isDaily) {
+    const date = getChallengeDate();
+    spawnSeed = getDailySpawnSeed(date);
+    difficulty = DAILY_CHALLENGE_DIFFICULTY;
+    daily = { date, ranked: claimRankedAttempt(date, playerAddress) };
+  }
+
+  return openSession(playerAddress, { spawnSeed, difficulty, daily, players, versus: null });
+}
+
+// Start a player's run in a match the relay paired them into. Both players get the match's
+// spawns and mode, and each can start one session for it.
+export function joinVersusMatch(playerAddress: string, pairing: VersusPairing): {
+  valid: boolean;
+  error?: string;
+  session?: SessionStart;
+} {
+  const key = playerAddress.toLowerCase();
+  if (!pairing.players.some(player => player.toLowerCase() === key)) {
+    return { valid: false, error: 'Not a player in this match' };
+  }
+
+  let match = versusMatches.get(pairing.matchId);
+  if (!match) {
+    match = { pairing, sessions: new Map(), results: new Map(), createdAt: Date.now() };
+    versusMatches.set(pairing.matchId, match);
+  }
+
+  if (match.sessions.has(key)) {
+    return { valid: false, error: 'Already started a run for this match' };
+  }
+
+  const session = openSession(playerAddress, {
+    spawnSeed: getVersusSpawnSeed(pairing.matchId),
+    difficulty: pairing.difficulty,
+    daily: null,
+    players: 1,
+    versus: pairing.matchId,
+  });
+  match.sessions.set(key, session.sessionId);
+
+  return { valid: true, session };
+}
+
+function openSession(
+  playerAddress: string,
+  setup: Pick<GameSession, 'spawnSeed' | 'difficulty' | 'daily' | 'players' | 'versus'>
+): SessionStart {
   const sessionId = `game_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  
+  const { spawnSeed, difficulty, daily, players, versus } = setup;
+
   const session: GameSession = {
     playerAddress,
     sessionId,
+    difficulty,
+    daily,
+    players,
+    versus,
+    spawnSeed,
+    spawnSchedule: createSpawnSchedule(spawnSeed, difficulty),
+    enemies: new Map(),
+    waveKills: new Map(),
+    combo: createCombo(),
+    powerUps: Array.from({ length: players }, () => new Map()),
     startTime: Date.now(),
+    pausedAt: null,
+    pausedTotal: 0,
     lastAction: Date.now(),
+    lastActionTicks: new Array(players).fill(0),
+    lastShotTicks: new Array(players).fill(null),
     actions: [{
       type: 'game_started',
       timestamp: Date.now(),
+      activeTime: 0,
+      tick: 0,
     }],
     score: 0,
+    playerScores: new Array(players).fill(0),
     enemiesKilled: 0,
+    hitpointsDestroyed: 0,
     shotsFired: 0,
+    hitsLanded: 0,
+    playerHits: 0,
+    lastHitTicks: new Array(players).fill(null),
+    extraLives: 0,
     isActive: true,
+    submission: { status: 'unsubmitted' },
+    evidence: [],
   };
   
   activeSessions.set(sessionId, session);
-  return sessionId;
+
+  const spawns = handOutSpawns(session);
+  return { sessionId, difficulty, daily, players, versus, spawns, spawnHorizon: session.spawnSchedule.nextTick };
+}
+
+// Decide spawns up to the lookahead window and remember every enemy handed out
+function handOutSpawns(session: GameSession): SpawnToken[] {
+  const elapsedTicks = Math.floor(getActiveTime(session, Date.now()) / TICK_MS);
+  const horizon = Math.min(elapsedTicks + GAME_LIMITS.SPAWN_LOOKAHEAD_TICKS, MAX_SESSION_TICKS);
+  const spawns = generateSpawns(session.spawnSchedule, horizon);
+
+  for (const spawn of spawns) {
+    session.enemies.set(spawn.id, { spawn, killedAtTick: null, killedBy: null, dropCollected: false });
+  }
+
+  return spawns;
+}
+
+// Hand out the spawns from a tick onwards, extending the schedule as the session progresses
+export function getSessionSpawns(sessionId: string, playerAddress: string, fromTick: number): {
+  valid: boolean;
+  spawns?: SpawnToken[];
+  spawnHorizon?: number;
+  error?: string;
+} {
+  const session = activeSessions.get(sessionId);
+
+  if (!session) {
+    return { valid: false, error: 'Invalid session ID' };
+  }
+
+  if (session.playerAddress !== playerAddress) {
+    return { valid: false, error: 'Session belongs to different player' };
+  }
+
+  if (!session.isActive) {
+    return { valid: false, error: 'Game session is not active' };
+  }
+
+  handOutSpawns(session);
+
+  const spawns: SpawnToken[] = [];
+  for (const { spawn } of session.enemies.values()) {
+    if (spawn.tick >= fromTick) {
+      spawns.push(spawn);
+    }
+  }
+
+  return { valid: true, spawns, spawnHorizon: session.spawnSchedule.nextTick };
+}
+
+// A kill must name an enemy that was handed out, is still alive and was on screen at the claimed tick
+function validateKill(session: GameSession, data: Record<string, unknown> | undefined): string | null {
+  const enemyId = data?.enemyId;
+  const tick = data?.tick;
+
+  if (!Number.isInteger(enemyId) || !Number.isInteger(tick)) {
+    return 'Kill must reference an enemy and tick';
+  }
+
+  const enemy = session.enemies.get(enemyId as number);
+  if (!enemy) {
+    return 'Unknown enemy';
+  }
+
+  if (enemy.killedAtTick !== null) {
+    return 'Enemy already destroyed';
+  }
+
+  const killTick = tick as number;
+  if (killTick < enemy.spawn.tick || killTick > getSpawnExpiryTick(enemy.spawn)) {
+    return 'Enemy could not have been reached at that time';
+  }
+
+  if (session.hitpointsDestroyed + ENEMY_ARCHETYPES[enemy.spawn.type].hitpoints > session.shotsFired) {
+    return 'More hits than shots fired';
+  }
+
+  return null;
+}
+
+// A boss can't go down faster than the player can land every hit on it
+function validateBossFight(session: GameSession, enemy: IssuedEnemy, killTick: number, now: number): string | null {
+  if (killTick - enemy.spawn.tick < MIN_BOSS_FIGHT_TICKS) {
+    return 'Boss fight too short';
+  }
+
+  // The client's clock starts after the session's, so real time can only be longer than the fight
+  if (getActiveTime(session, now) - enemy.spawn.tick * TICK_MS < MIN_BOSS_FIGHT_TICKS * TICK_MS) {
+    return 'Boss defeated before it could have been';
+  }
+
+  return null;
+}
+
+// The client's points for a kill must match the shared combo rules applied to the action stream
+function validateKillPoints(session: GameSession, enemy: IssuedEnemy, data: Record<string, unknown>): string | null {
+  const combo = { ...session.combo };
+  const basePoints = applyScoreMultiplier(ENEMY_ARCHETYPES[enemy.spawn.type].points, session.difficulty);
+  const points = scoreComboKill(combo, data.tick as number, basePoints);
+
+  if (data.points !== points) {
+    return 'Kill points do not match the combo multiplier';
+  }
+
+  return null;
+}
+
+// Award a validated kill to the ship that made it, plus the wave's clear bonus to the team
+// if it was the wave's last enemy
+function creditKill(session: GameSession, enemy: IssuedEnemy, killTick: number, player: number): void {
+  const archetype = ENEMY_ARCHETYPES[enemy.spawn.type];
+  enemy.killedAtTick = killTick;
+  enemy.killedBy = player;
+  session.enemiesKilled++;
+  session.hitpointsDestroyed += archetype.hitpoints;
+  const points = scoreComboKill(session.combo, killTick, applyScoreMultiplier(archetype.points, session.difficulty));
+  session.score += points;
+  session.playerScores[player] += points;
+
+  const waveKills = (session.waveKills.get(enemy.spawn.wave) || 0) + 1;
+  session.waveKills.set(enemy.spawn.wave, waveKills);
+  if (waveKills === enemy.spawn.waveSize) {
+    session.score += getWaveSettings(enemy.spawn.wave, session.difficulty).clearBonus;
+  }
+}
+
+// A pickup must name a destroyed enemy that carried that power-up, while its drop was still falling
+function validatePickup(session: GameSession, data: Record<string, unknown> | undefined): string | null {
+  const enemyId = data?.enemyId;
+  const tick = data?.tick;
+
+  if (!Number.isInteger(enemyId) || !Number.isInteger(tick) || !isPowerUpType(data?.powerUp)) {
+    return 'Pickup must reference an enemy, power-up and tick';
+  }
+
+  const enemy = session.enemies.get(enemyId as number);
+  if (!enemy || enemy.spawn.drop !== data.powerUp) {
+    return 'Enemy carried no such power-up';
+  }
+
+  if (enemy.killedAtTick === null) {
+    return 'Enemy not destroyed';
+  }
+
+  if (enemy.dropCollected) {
+    return 'Power-up already collected';
+  }
+
+  const pickupTick = tick as number;
+  if (pickupTick < enemy.killedAtTick || pickupTick > getDropExpiryTick(enemy.killedAtTick, enemy.spawn.y)) {
+    return 'Power-up could not have been reached at that time';
+  }
+
+  return null;
+}
+
+// Hits it takes to use up every life in the shared pool
+function getTotalHealth(session: GameSession): number {
+  return (PLAYER_LIVES + session.extraLives) * PLAYER_MAX_HEALTH;
+}
+
+// Hits the ships can take before the run ends: in co-op the other ship can be damaged
+// without being destroyed when the last life goes
+function getMaxHits(session: GameSession): number {
+  return getTotalHealth(session) + (session.players - 1) * (PLAYER_MAX_HEALTH - 1);
+}
+
+// Which ship an action is about; solo clients may leave it out
+function getActionPlayer(session: GameSession, data: Record<string, unknown> | undefined): number | null {
+  const player = data?.player ?? 0;
+  return Number.isInteger(player) && (player as number) >= 0 && (player as number) < session.players
+    ? player as number
+    : null;
+}
+
+// Hits can't land while the ship is still invulnerable from the previous one
+function validateHit(session: GameSession, player: number, hitTick: number): string | null {
+  const lastHitTick = session.lastHitTicks[player];
+  if (lastHitTick !== null && hitTick - lastHitTick < PLAYER_INVULNERABLE_TICKS) {
+    return 'Hit reported while invulnerable';
+  }
+
+  if (session.playerHits >= getMaxHits(session)) {
+    return 'Player has no lives left';
+  }
+
+  return null;
+}
+
+// Whether a ship had a power-up at a tick. Its actions arrive in order, so any pickup before
+// the tick has already been handled.
+function isPowerUpActive(session: GameSession, player: number, powerUp: PowerUpType, tick: number): boolean {
+  return tick < (session.powerUps[player].get(powerUp) ?? 0);
 }
 
 export function validateGameAction(
   sessionId: string,
   playerAddress: string,
-  action: Omit<GameAction, 'timestamp'>
+  action: Omit<GameAction, 'timestamp' | 'activeTime' | 'tick'>
 ): { valid: boolean; error?: string; session?: GameSession } {
   const session = activeSessions.get(sessionId);
   
@@ -84,68 +542,247 @@ export function validateGameAction(
   }
   
   const now = Date.now();
+  const activeTime = getActiveTime(session, now);
   
   // Check if session is expired
-  if (now - session.startTime > GAME_LIMITS.MAX_SESSION_DURATION) {
+  if (activeTime > GAME_LIMITS.MAX_SESSION_DURATION) {
     session.isActive = false;
     return { valid: false, error: 'Game session expired' };
   }
   
-  // Check minimum time between actions
-  if (now - session.lastAction < GAME_LIMITS.MIN_TIME_BETWEEN_ACTIONS) {
-    return { valid: false, error: 'Actions too frequent' };
+  const player = getActionPlayer(session, action.data);
+  if (player === null) {
+    return { valid: false, error: 'Invalid player' };
+  }
+
+  // Reports can arrive well after the event, so actions are judged by the tick they happened
+  // on; arrival time only bounds how far into the run they can be
+  const tick = action.data?.tick;
+  if (!Number.isInteger(tick)) {
+    return { valid: false, error: 'Action must reference a tick' };
+  }
+
+  const actionTick = tick as number;
+  if (actionTick * TICK_MS > activeTime + GAME_LIMITS.CLOCK_TOLERANCE) {
+    return { valid: false, error: 'Action reported before it could have happened' };
+  }
+
+  // Every ship in a co-op run reports its own actions, in the order they happened
+  if (actionTick < session.lastActionTicks[player]) {
+    return { valid: false, error: 'Actions out of order' };
+  }
+
+  if (session.pausedAt !== null && action.type !== 'resume') {
+    return { valid: false, error: 'Game is paused' };
   }
   
+  // Ceilings rise with the wave the session has reached
+  const limits = getWaveLimits(getWaveAtTick(actionTick), session.difficulty, session.players);
+
   // Validate action-specific rules
-  const recentActions = session.actions.filter(a => now - a.timestamp < 1000); // Last second
+  const recentActions = session.actions.filter(a => actionTick - a.tick < TICK_RATE); // Last second of play
   
   switch (action.type) {
     case 'shot_fired':
-      const recentShots = recentActions.filter(a => a.type === 'shot_fired').length;
-      if (recentShots >= GAME_LIMITS.MAX_SHOTS_PER_SECOND) {
+      // Each ship has its own gun
+      const lastShotTick = session.lastShotTicks[player];
+      if (lastShotTick !== null && (actionTick - lastShotTick) * TICK_MS < GAME_LIMITS.MIN_TIME_BETWEEN_SHOTS) {
+        return { valid: false, error: 'Shots too frequent' };
+      }
+      const recentShots = recentActions
+        .filter(a => a.type === 'shot_fired' && getActionPlayer(session, a.data) === player)
+        .length;
+      // The window can still hold shots from a rapid fire that has since run out
+      const maxShots = isPowerUpActive(session, player, 'rapid_fire', actionTick - TICK_RATE + 1)
+        ? GAME_LIMITS.RAPID_FIRE_SHOTS_PER_SECOND
+        : GAME_LIMITS.MAX_SHOTS_PER_SECOND;
+      if (recentShots >= maxShots) {
         return { valid: false, error: 'Too many shots fired per second' };
       }
-      session.shotsFired++;
+      // A spread shot fires several bullets at once
+      const bullets = action.data?.bullets ?? 1;
+      if (bullets !== 1 && !(bullets === SPREAD_SHOT_DRIFT.length && isPowerUpActive(session, player, 'spread_shot', actionTick))) {
+        return { valid: false, error: 'Invalid number of bullets' };
+      }
+      session.shotsFired += bullets;
+      session.lastShotTicks[player] = actionTick;
       break;
       
     case 'enemy_killed':
-      const recentKills = recentActions.filter(a => a.type === 'enemy_killed').length;
-      if (recentKills >= GAME_LIMITS.MAX_KILLS_PER_SECOND) {
+      const recentKills = session.actions
+        .filter(a => a.type === 'enemy_killed' && (actionTick - a.tick) * TICK_MS < GAME_LIMITS.KILL_RATE_WINDOW)
+        .length;
+      if (recentKills >= limits.maxKillsPerSecond * GAME_LIMITS.KILL_RATE_WINDOW / 1000) {
         return { valid: false, error: 'Too many kills per second' };
       }
-      session.enemiesKilled++;
-      session.score += GAME_LIMITS.POINTS_PER_KILL;
+      const killError = validateKill(session, action.data);
+      if (killError) {
+        return { valid: false, error: killError };
+      }
+
+      const enemy = session.enemies.get(action.data!.enemyId as number)!;
+      if (enemy.spawn.type === 'boss') {
+        return { valid: false, error: 'Bosses must be reported as boss_defeated' };
+      }
+      const pointsError = validateKillPoints(session, enemy, action.data!);
+      if (pointsError) {
+        return { valid: false, error: pointsError };
+      }
+      creditKill(session, enemy, actionTick, player);
       
       // Check if score is reasonable
-      if (session.score > GAME_LIMITS.MAX_SCORE_PER_SESSION) {
+      if (session.score > limits.maxScore) {
+        return { valid: false, error: 'Score too high for session duration' };
+      }
+      break;
+
+    case 'boss_defeated':
+      const bossError = validateKill(session, action.data);
+      if (bossError) {
+        return { valid: false, error: bossError };
+      }
+
+      const boss = session.enemies.get(action.data!.enemyId as number)!;
+      if (boss.spawn.type !== 'boss') {
+        return { valid: false, error: 'Enemy is not a boss' };
+      }
+      const fightError = validateBossFight(session, boss, actionTick, now);
+      if (fightError) {
+        return { valid: false, error: fightError };
+      }
+      const bossPointsError = validateKillPoints(session, boss, action.data!);
+      if (bossPointsError) {
+        return { valid: false, error: bossPointsError };
+      }
+      creditKill(session, boss, actionTick, player);
+
+      if (session.score > limits.maxScore) {
         return { valid: false, error: 'Score too high for session duration' };
       }
       break;
       
-    case 'game_ended':
-      session.isActive = false;
+    case 'power_up_collected':
+      const pickupError = validatePickup(session, action.data);
+      if (pickupError) {
+        return { valid: false, error: pickupError };
+      }
+
+      const carrier = session.enemies.get(action.data!.enemyId as number)!;
+      carrier.dropCollected = true;
+      const duration = POWER_UPS[carrier.spawn.drop!].durationTicks;
+      if (duration === null) {
+        session.extraLives++;
+      } else {
+        // Collecting one that is still active starts it over
+        session.powerUps[player].set(carrier.spawn.drop!, actionTick + duration);
+      }
       break;
+
+    case 'power_up_expired':
+      // Timed power-ups run out on their own; the report has to agree with when
+      if (!isPowerUpType(action.data?.powerUp) || session.powerUps[player].get(action.data.powerUp) !== actionTick) {
+        return { valid: false, error: 'Power-up did not run out then' };
+      }
+      break;
+
+    case 'player_hit':
+      const hitError = validateHit(session, player, actionTick);
+      if (hitError) {
+        return { valid: false, error: hitError };
+      }
+      session.playerHits++;
+      session.lastHitTicks[player] = actionTick;
+      breakCombo(session.combo, actionTick);
+      break;
+
+    case 'pause':
+      if (session.pausedAt !== null) {
+        return { valid: false, error: 'Game is already paused' };
+      }
+      session.pausedAt = now;
+      break;
+
+    case 'resume':
+      if (session.pausedAt === null) {
+        return { valid: false, error: 'Game is not paused' };
+      }
+      session.pausedTotal += now - session.pausedAt;
+      session.pausedAt = null;
+      break;
+
+    // Sessions only end through endGameSession, which verifies the run replay
+    default:
+      return { valid: false, error: 'Unsupported action type' };
   }
   
   // Add the action to session
   const timestampedAction: GameAction = {
     ...action,
     timestamp: now,
+    activeTime,
+    tick: actionTick,
   };
   
   session.actions.push(timestampedAction);
   session.lastAction = now;
+  session.lastActionTicks[player] = actionTick;
   
   return { valid: true, session };
 }
 
+// Ships in a player's own session, for limits that scale with the action traffic
+export function getSessionPlayers(sessionId: string, playerAddress: string): number {
+  const session = activeSessions.get(sessionId);
+  return session && session.playerAddress === playerAddress ? session.players : 1;
+}
+
+// A run in progress keeps the player's session token renewable
+export function hasActiveGameSession(playerAddress: string): boolean {
+  const now = Date.now();
+  const key = playerAddress.toLowerCase();
+  return Array.from(activeSessions.values()).some(session =>
+    session.isActive &&
+    session.playerAddress.toLowerCase() === key &&
+    getActiveTime(session, now) <= GAME_LIMITS.MAX_SESSION_DURATION
+  );
+}
+
 export function getGameSession(sessionId: string): GameSession | null {
   return activeSessions.get(sessionId) || null;
 }
 
-export function endGameSession(sessionId: string, playerAddress: string): { 
+function recordEvidence(session: GameSession, type: CheatingEvidence['type'], details: Record<string, unknown>): void {
+  session.evidence.push({ type, timestamp: Date.now(), details });
+  console.warn(`Cheating evidence for ${session.playerAddress} in ${session.sessionId}: ${type}`, details);
+}
+
+// Keep how a head-to-head run finished; a run with cheating evidence can't win
+function recordVersusResult(session: GameSession, ticks: number, clean: boolean): void {
+  const match = session.versus ? versusMatches.get(session.versus) : undefined;
+  if (match) {
+    match.results.set(session.playerAddress.toLowerCase(), { score: session.score, ticks, clean });
+  }
+}
+
+// Close a session as rejected: it scores nothing and can't be ended again with a better replay
+function rejectSession(session: GameSession): void {
+  session.isActive = false;
+  session.score = 0;
+  recordVersusResult(session, 0, false);
+  const now = Date.now();
+  const activeTime = getActiveTime(session, now);
+  session.actions.push({
+    type: 'game_ended',
+    timestamp: now,
+    activeTime,
+    tick: Math.floor(activeTime / TICK_MS),
+  });
+}
+
+export function endGameSession(sessionId: string, playerAddress: string, recording: unknown): { 
   valid: boolean; 
   finalScore?: number; 
+  spawnSeed?: number;
   error?: string 
 } {
   const session = activeSessions.get(sessionId);
@@ -157,18 +794,84 @@ export function endGameSession(sessionId: string, playerAddress: string): {
   if (session.playerAddress !== playerAddress) {
     return { valid: false, error: 'Session belongs to different player' };
   }
-  
+
+  if (!session.isActive) {
+    return { valid: false, error: 'Game session is not active' };
+  }
+
+  if (!isValidRunRecording(recording, session.players)) {
+    return { valid: false, error: 'Missing or malformed run recording' };
+  }
+
+  // The simulation can't run faster than real time, so the run can't outlast the unpaused session
+  const now = Date.now();
+  const elapsed = getActiveTime(session, now);
+  const replayDuration = recording.ticks * TICK_MS;
+  if (replayDuration > elapsed + GAME_LIMITS.CLOCK_TOLERANCE) {
+    recordEvidence(session, 'replay_too_long', { replayDuration, elapsed });
+    rejectSession(session);
+    return { valid: false, error: 'Run recording is longer than the session' };
+  }
+
+  // Re-simulate the run; only the replayed score counts
+  const result = simulateRun(
+    session.spawnSeed,
+    session.difficulty,
+    recording.inputLog,
+    recording.ticks,
+    session.players
+  );
+
+  if (result.score !== session.score || result.enemiesKilled !== session.enemiesKilled) {
+    recordEvidence(session, 'replay_mismatch', {
+      claimedScore: session.score,
+      replayScore: result.score,
+      claimedKills: session.enemiesKilled,
+      replayKills: result.enemiesKilled,
+    });
+  }
+
+  // A run that ended in a death must have taken every hit the shared lives could absorb
+  const totalHealth = getTotalHealth(session);
+  if (result.isOver && (session.playerHits < totalHealth || result.hitsTaken < totalHealth)) {
+    recordEvidence(session, 'unexplained_death', {
+      reportedHits: session.playerHits,
+      replayHits: result.hitsTaken,
+      totalHealth,
+    });
+  }
+
   session.isActive = false;
+  session.score = result.score;
+  session.playerScores = result.players.map(player => player.score);
+  session.enemiesKilled = result.enemiesKilled;
+  session.shotsFired = result.shotsFired;
+  session.hitsLanded = result.hitsLanded;
+  session.replay = recording;
+  recordVersusResult(session, recording.ticks, session.evidence.length === 0);
+
+  // Only a ranked daily run with a clean replay goes on the day's leaderboard
+  if (session.daily?.ranked && session.evidence.length === 0) {
+    recordDailyScore(session.daily.date, session.playerAddress, session.score, session.enemiesKilled);
+  }
   
   // Add game ended action
   session.actions.push({
     type: 'game_ended',
-    timestamp: Date.now(),
+    timestamp: now,
+    activeTime: elapsed,
+    tick: recording.ticks,
   });
   
+  // The run is over, so the spawn seed no longer gives anything away; with it the run can be replayed.
+  // Everyone plays the same daily seed all day though, so it stays secret until the day is over,
+  // and a versus opponent may still be playing the same seed until the match is decided.
+  const seedSecret = (session.daily !== null && session.daily.date >= getChallengeDate(now)) ||
+    (session.versus !== null && !getVersusOutcome(session.versus)?.decided);
   return {
     valid: true,
     finalScore: session.score,
+    spawnSeed: seedSecret ? undefined : session.spawnSeed,
   };
 }
 
@@ -178,6 +881,12 @@ export function getSessionStats(sessionId: string): {
   shotsFired: number;
   accuracy: number;
   sessionDuration: number;
+  difficulty: Difficulty;
+  daily: DailyRun | null;
+  players: number;
+  playerScores: number[];
+  versus: string | null;
+  bossesDefeated: number;
 } | null {
   const session = activeSessions.get(sessionId);
   
@@ -185,8 +894,10 @@ export function getSessionStats(sessionId: string): {
     return null;
   }
   
-  const accuracy = session.shotsFired > 0 ? (session.enemiesKilled / session.shotsFired) * 100 : 0;
-  const sessionDuration = Date.now() - session.startTime;
+  // Hits landed per shot, both from the replay: tanks, turrets and bosses take several hits, so
+  // kills per shot would understate it
+  const accuracy = session.shotsFired > 0 ? (session.hitsLanded / session.shotsFired) * 100 : 0;
+  const sessionDuration = getActiveTime(session, Date.now());
   
   return {
     score: session.score,
@@ -194,6 +905,155 @@ export function getSessionStats(sessionId: string): {
     shotsFired: session.shotsFired,
     accuracy: Math.round(accuracy * 100) / 100,
     sessionDuration,
+    difficulty: session.difficulty,
+    daily: session.daily,
+    players: session.players,
+    playerScores: session.playerScores,
+    versus: session.versus,
+    // Every boss kill in the action stream passed validation before it was recorded
+    bossesDefeated: session.actions.filter(action => action.type === 'boss_defeated').length,
   };
 }
 
+export function hasCheatingEvidence(sessionId: string): boolean {
+  return (activeSessions.get(sessionId)?.evidence.length ?? 0) > 0;
+}
+
+// Where a player stands in a match. Not starting before the pairing expires, or letting the
+// session lapse without ending it, forfeits.
+function getVersusStanding(match: VersusMatch, playerAddress: string, now: number): VersusStanding {
+  const key = playerAddress.toLowerCase();
+  const result = match.results.get(key);
+  if (result) {
+    return { playerAddress, status: result.clean ? 'finished' : 'disqualified', score: result.score };
+  }
+
+  const sessionId = match.sessions.get(key);
+  if (sessionId === undefined) {
+    return { playerAddress, status: now > match.pairing.expiresAt ? 'forfeited' : 'waiting', score: null };
+  }
+
+  const session = activeSessions.get(sessionId);
+  if (!session || !session.isActive || getActiveTime(session, now) > GAME_LIMITS.MAX_SESSION_DURATION) {
+    return { playerAddress, status: 'forfeited', score: null };
+  }
+  return { playerAddress, status: 'playing', score: null };
+}
+
+// The server decides the winner from the replayed scores: the higher score wins, then the run
+// that survived longer. Only a clean finished run can win.
+export function getVersusOutcome(matchId: string): VersusOutcome | null {
+  const match = versusMatches.get(matchId);
+  if (!match) {
+    return null;
+  }
+
+  const now = Date.now();
+  const standings = match.pairing.players.map(player => getVersusStanding(match, player, now));
+  const decided = standings.every(standing => standing.status !== 'waiting' && standing.status !== 'playing');
+  if (!decided) {
+    return { matchId, decided, winner: null, standings };
+  }
+
+  const ranking = standings.map(standing => {
+    const result = match.results.get(standing.playerAddress.toLowerCase());
+    return standing.status === 'finished' && result
+      ? { playerAddress: standing.playerAddress, score: result.score, ticks: result.ticks }
+      : { playerAddress: standing.playerAddress, score: -1, ticks: -1 };
+  });
+  ranking.sort((a, b) => b.score - a.score || b.ticks - a.ticks);
+
+  const [first, second] = ranking;
+  const draw = first.score === second.score && first.ticks === second.ticks;
+  return {
+    matchId,
+    decided,
+    winner: draw || first.score < 0 ? null : first.playerAddress,
+    standings,
+    spawnSeed: getVersusSpawnSeed(matchId),
+  };
+}
+
+// Claim an ended session for on-chain submission. Only one caller can hold the claim, until it
+// times out; sessions whose transaction has gone out report its hash instead, for the caller to
+// look up. The claim id ties the later complete or release to this claim rather than one that
+// took over.
+export function claimSessionSubmission(sessionId: string): {
+  claimed: boolean;
+  claimId?: number;
+  transactionHash?: string;
+} {
+  const session = activeSessions.get(sessionId);
+
+  if (!session || session.isActive) {
+    return { claimed: false };
+  }
+
+  const now = Date.now();
+  switch (session.submission.status) {
+    case 'submitted':
+      return { claimed: false, transactionHash: session.submission.transactionHash };
+
+    case 'in_flight':
+      // A sent transaction may still be mined, so it is never taken over
+      if (session.submission.transactionHash) {
+        return { claimed: false, transactionHash: session.submission.transactionHash };
+      }
+      if (now - session.submission.startedAt <= GAME_LIMITS.SUBMISSION_CLAIM_TIMEOUT) {
+        return { claimed: false };
+      }
+      break;
+  }
+
+  session.submission = { status: 'in_flight', startedAt: now };
+  return { claimed: true, claimId: now };
+}
+
+function holdsClaim(session: GameSession | undefined, claimId: number): session is GameSession {
+  return session?.submission.status === 'in_flight' && session.submission.startedAt === claimId;
+}
+
+// Keep the hash of a claim's transaction as soon as it is sent, while it waits to be mined
+export function recordSubmissionTransaction(sessionId: string, claimId: number, transactionHash: string): void {
+  const session = activeSessions.get(sessionId);
+
+  if (holdsClaim(session, claimId)) {
+    session.submission = { status: 'in_flight', startedAt: claimId, transactionHash };
+  }
+}
+
+// Record the transaction that credited a claimed session
+export function completeSessionSubmission(sessionId: string, claimId: number, transactionHash: string): void {
+  const session = activeSessions.get(sessionId);
+
+  if (holdsClaim(session, claimId)) {
+    session.submission = { status: 'submitted', transactionHash, submittedAt: Date.now() };
+  }
+}
+
+// Give up a claim after a failed or reverted write so the session can be retried
+export function releaseSessionSubmission(sessionId: string, claimId: number): void {
+  const session = activeSessions.get(sessionId);
+
+  if (holdsClaim(session, claimId)) {
+    session.submission = { status: 'unsubmitted' };
+  }
+}
+
+// A sent transaction that was later found mined: the session is credited
+export function confirmSessionSubmission(sessionId: string, transactionHash: string): void {
+  const session = activeSessions.get(sessionId);
+
+  if (session?.submission.status === 'in_flight' && session.submission.transactionHash === transactionHash) {
+    session.submission = { status: 'submitted', transactionHash, submittedAt: Date.now() };
+  }
+}
+
+// A sent transaction that reverted credited nothing, so the session can be submitted again
+export function reopenSessionSubmission(sessionId: string, transactionHash: string): void {
+  const session = activeSessions.get(sessionId);
+
+  if (session?.submission.status !== 'unsubmitted' && session?.submission.transactionHash === transactionHash) {
+    session.submission = { status: 'unsubmitted' };
+  }
+}
@@ -0,0 +1,56 @@
+// Kill combos. Consecutive kills without taking damage build a score multiplier, which
+// decays step by step once the kills stop. Shared by the simulation and the server,
+// which replays the same rules over the reported kill and hit ticks.
+
+import { TICK_RATE } from './constants';
+
+export const COMBO_KILLS_PER_STEP = 5; // Kills needed to raise the multiplier by one
+export const COMBO_MAX_MULTIPLIER = 5;
+export const COMBO_DECAY_TICKS = 2 * TICK_RATE; // Without a kill, the multiplier drops a step this often
+
+export interface ComboState {
+  multiplier: number;
+  progress: number; // Kills towards the next step
+  lastTick: number; // Last kill, or the last decay step applied since
+}
+
+export function createCombo(): ComboState {
+  return { multiplier: 1, progress: 0, lastTick: 0 };
+}
+
+function applyDecay(combo: ComboState, tick: number): void {
+  const steps = Math.floor((tick - combo.lastTick) / COMBO_DECAY_TICKS);
+  if (steps > 0) {
+    combo.multiplier = Math.max(1, combo.multiplier - steps);
+    combo.progress = 0;
+    combo.lastTick += steps * COMBO_DECAY_TICKS;
+  }
+}
+
+// The multiplier in effect at a tick, without changing the combo
+export function getComboMultiplier(combo: ComboState, tick: number): number {
+  const steps = Math.floor((tick - combo.lastTick) / COMBO_DECAY_TICKS);
+  return Math.max(1, combo.multiplier - Math.max(0, steps));
+}
+
+// Record a kill and return the points it scores
+export function scoreComboKill(combo: ComboState, tick: number, basePoints: number): number {
+  applyDecay(combo, tick);
+  const points = basePoints * combo.multiplier;
+
+  combo.progress++;
+  if (combo.progress >= COMBO_KILLS_PER_STEP && combo.multiplier < COMBO_MAX_MULTIPLIER) {
+    combo.multiplier++;
+    combo.progress = 0;
+  }
+  combo.lastTick = tick;
+
+  return points;
+}
+
+// Taking damage breaks the combo
+export function breakCombo(combo: ComboState, tick: number): void {
+  combo.multiplier = 1;
+  combo.progress = 0;
+  combo.lastTick = tick;
+}
@@ -0,0 +1,27 @@
+// Shared game constants. Speeds and cooldowns are per simulation tick, not per rendered frame.
+
+// Bump whenever a change to the simulation would play recorded inputs back differently
+export const GAME_VERSION = 1;
+
+export const GAME_WIDTH = 800;
+export const GAME_HEIGHT = 600;
+
+export const TICK_RATE = 60; // Simulation ticks per second
+export const TICK_MS = 1000 / TICK_RATE;
+
+export const PLAYER_WIDTH = 30;
+export const PLAYER_HEIGHT = 30;
+export const PLAYER_SPEED = 5;
+export const PLAYER_SHOT_COOLDOWN_TICKS = 9; // ~150ms
+export const PLAYER_LIVES = 3; // Shared by both ships in co-op
+export const MAX_PLAYERS = 2; // Local co-op
+export const PLAYER_MAX_HEALTH = 2; // Hits each ship survives
+export const PLAYER_INVULNERABLE_TICKS = 2 * TICK_RATE; // After every hit
+
+export const BULLET_WIDTH = 4;
+export const BULLET_HEIGHT = 10;
+export const BULLET_SPEED = 7;
+
+// Sizes, hitpoints and point values of each enemy type live in enemies.ts
+export const ENEMY_SPEED = 2; // Wave 1 speed; later waves are faster
+export const ENEMY_SHOOT_COOLDOWN_TICKS = 60; // Wave 1 fire rate (1 second); later waves fire faster
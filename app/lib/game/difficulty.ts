@@ -0,0 +1,34 @@
+// Difficulty modes. A mode is fixed when the session starts and changes how fast enemies
+// move and fire, how closely formations follow each other, and what everything is worth.
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+export interface DifficultySettings {
+  label: string;
+  enemySpeedFactor: number;
+  fireCooldownFactor: number; // Above 1, enemies fire less often
+  spawnWindowFactor: number; // Below 1, a wave's formations enter closer together
+  scoreMultiplier: number;
+}
+
+export const DIFFICULTIES: Record<Difficulty, DifficultySettings> = {
+  easy: { label: 'Easy', enemySpeedFactor: 0.8, fireCooldownFactor: 1.5, spawnWindowFactor: 1.2, scoreMultiplier: 0.5 },
+  normal: { label: 'Normal', enemySpeedFactor: 1, fireCooldownFactor: 1, spawnWindowFactor: 1, scoreMultiplier: 1 },
+  hard: { label: 'Hard', enemySpeedFactor: 1.25, fireCooldownFactor: 0.7, spawnWindowFactor: 0.75, scoreMultiplier: 1.5 },
+};
+
+export const DIFFICULTY_LEVELS = Object.keys(DIFFICULTIES) as Difficulty[];
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'normal';
+
+// Everyone plays the daily challenge in the same mode so scores compare fairly
+export const DAILY_CHALLENGE_DIFFICULTY: Difficulty = 'normal';
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return typeof value === 'string' && DIFFICULTY_LEVELS.includes(value as Difficulty);
+}
+
+// Points scaled by the mode, rounded so scores stay whole numbers
+export function applyScoreMultiplier(points: number, difficulty: Difficulty): number {
+  return Math.round(points * DIFFICULTIES[difficulty].scoreMultiplier);
+}
@@ -0,0 +1,235 @@
+// Enemy archetypes: stats, movement patterns and firing patterns.
+// Movement uses plain arithmetic only (no Math.sin/cos) so every JS engine
+// produces bit-identical runs and server-side replays stay exact.
+
+import { BULLET_WIDTH, BULLET_SPEED, GAME_WIDTH } from './constants';
+import { acquireBullet, enemyPool } from './pool';
+import { SpawnToken } from './spawns';
+import { Bullet, Enemy, Player } from './types';
+
+export type EnemyType = 'grunt' | 'zigzag' | 'tank' | 'kamikaze' | 'turret' | 'boss';
+
+export interface EnemyArchetype {
+  hitpoints: number;
+  points: number;
+  width: number;
+  height: number;
+  speedFactor: number; // Relative to the wave's base enemy speed; ships never descend slower
+  holdTicks: number; // Longest time the ship hovers in place
+  fireCooldownFactor: number | null; // Relative to the wave's fire cooldown; null never fires
+}
+
+export const ENEMY_ARCHETYPES: Record<EnemyType, EnemyArchetype> = {
+  grunt: {
+    hitpoints: 1, points: 10, width: 30, height: 30,
+    speedFactor: 1, holdTicks: 0, fireCooldownFactor: 1,
+  },
+  zigzag: {
+    hitpoints: 1, points: 15, width: 28, height: 28,
+    speedFactor: 0.9, holdTicks: 0, fireCooldownFactor: 1.5,
+  },
+  tank: {
+    hitpoints: 4, points: 40, width: 44, height: 36,
+    speedFactor: 0.6, holdTicks: 0, fireCooldownFactor: 1.2,
+  },
+  kamikaze: {
+    hitpoints: 1, points: 20, width: 24, height: 30,
+    speedFactor: 0.7, holdTicks: 0, fireCooldownFactor: null,
+  },
+  turret: {
+    hitpoints: 2, points: 30, width: 34, height: 34,
+    speedFactor: 1, holdTicks: 6 * 60, fireCooldownFactor: 1.6,
+  },
+  // Bosses hold the top of the screen for a while, then retreat upwards if not defeated
+  boss: {
+    hitpoints: 40, points: 1000, width: 120, height: 70,
+    speedFactor: 0.5, holdTicks: 15 * 60, fireCooldownFactor: 1,
+  },
+};
+
+const ZIGZAG_AMPLITUDE = 60;
+const ZIGZAG_PERIOD_TICKS = 90;
+const KAMIKAZE_DIVE_Y = 140;
+const KAMIKAZE_DIVE_SPEED_FACTOR = 3;
+const KAMIKAZE_MAX_DRIFT = 4;
+const TURRET_HOLD_Y = 80;
+const TURRET_SPREAD = [-2, 0, 2];
+const BOSS_HOLD_Y = 40;
+const BOSS_STRAFE_SPEED = 0.5;
+const BOSS_MAX_AIM_DRIFT = 4;
+const BOSS_FAN = [-3, -2, -1, 0, 1, 2, 3];
+const BOSS_AIMED_SPREAD = [-1.5, 0, 1.5];
+
+// Bosses get more aggressive as they lose hitpoints: phase 1, 2 or 3
+export function getBossPhase(enemy: Enemy): number {
+  const remaining = enemy.hitpoints / ENEMY_ARCHETYPES.boss.hitpoints;
+  if (remaining > 2 / 3) return 1;
+  if (remaining > 1 / 3) return 2;
+  return 3;
+}
+
+// Bring an enemy on screen from its spawn token, reusing a pooled object
+export function spawnEnemy(spawn: SpawnToken, tick: number): Enemy {
+  const archetype = ENEMY_ARCHETYPES[spawn.type];
+  const enemy = enemyPool.acquire();
+  enemy.id = spawn.id;
+  enemy.type = spawn.type;
+  enemy.wave = spawn.wave;
+  enemy.waveSize = spawn.waveSize;
+  enemy.x = spawn.x;
+  enemy.y = spawn.y;
+  enemy.width = archetype.width;
+  enemy.height = archetype.height;
+  enemy.hitpoints = archetype.hitpoints;
+  enemy.points = archetype.points;
+  enemy.drop = spawn.drop;
+  enemy.speed = spawn.speed;
+  enemy.shootCooldownTicks = spawn.shootCooldownTicks;
+  enemy.spawnTick = tick;
+  enemy.lastShotTick = tick;
+  enemy.originX = spawn.x;
+  enemy.vx = 0;
+  enemy.diving = false;
+  enemy.holdUntilTick = null;
+  enemy.retreating = false;
+  return enemy;
+}
+
+export function releaseEnemy(enemy: Enemy): void {
+  enemyPool.release(enemy);
+}
+
+function fireBullet(enemy: Enemy, vx: number, bullets: Bullet[]): void {
+  bullets.push(acquireBullet(
+    enemy.x + enemy.width / 2 - BULLET_WIDTH / 2,
+    enemy.y + enemy.height,
+    vx,
+    BULLET_SPEED,
+    null
+  ));
+}
+
+// Sideways drift that sends a bullet from the enemy towards the player
+function aimAt(enemy: Enemy, player: Player): number {
+  const ticksToPlayer = Math.max(1, (player.y - enemy.y - enemy.height) / BULLET_SPEED);
+  const dx = (player.x + player.width / 2) - (enemy.x + enemy.width / 2);
+  return Math.max(-BOSS_MAX_AIM_DRIFT, Math.min(BOSS_MAX_AIM_DRIFT, dx / ticksToPlayer));
+}
+
+// Triangle wave in [-1, 1]
+function zigzagOffset(ticksAlive: number): number {
+  const phase = (ticksAlive % ZIGZAG_PERIOD_TICKS) / ZIGZAG_PERIOD_TICKS;
+  return 1 - 4 * Math.abs(phase - 0.5);
+}
+
+export function moveEnemy(enemy: Enemy, player: Player, tick: number): void {
+  switch (enemy.type) {
+    case 'zigzag':
+      enemy.y += enemy.speed;
+      enemy.x = Math.min(
+        GAME_WIDTH - enemy.width,
+        Math.max(0, enemy.originX + ZIGZAG_AMPLITUDE * zigzagOffset(tick - enemy.spawnTick))
+      );
+      break;
+
+    case 'kamikaze':
+      // Drift in slowly, then lock onto the player's position and dive
+      if (!enemy.diving && enemy.y >= KAMIKAZE_DIVE_Y) {
+        const diveSpeed = enemy.speed * KAMIKAZE_DIVE_SPEED_FACTOR;
+        const ticksToPlayer = Math.max(1, (player.y - enemy.y) / diveSpeed);
+        const dx = (player.x + player.width / 2) - (enemy.x + enemy.width / 2);
+        enemy.vx = Math.max(-KAMIKAZE_MAX_DRIFT, Math.min(KAMIKAZE_MAX_DRIFT, dx / ticksToPlayer));
+        enemy.speed = diveSpeed;
+        enemy.diving = true;
+      }
+      enemy.x = Math.min(GAME_WIDTH - enemy.width, Math.max(0, enemy.x + enemy.vx));
+      enemy.y += enemy.speed;
+      break;
+
+    case 'turret':
+      // Descend to the firing line, hold position, then leave
+      if (enemy.holdUntilTick === null && enemy.y >= TURRET_HOLD_Y) {
+        enemy.holdUntilTick = tick + ENEMY_ARCHETYPES.turret.holdTicks;
+      }
+      if (enemy.holdUntilTick === null || tick >= enemy.holdUntilTick) {
+        enemy.y += enemy.speed;
+      }
+      break;
+
+    case 'boss':
+      // Enter, strafe across the top (faster in later phases), then retreat
+      if (enemy.holdUntilTick === null) {
+        enemy.y += enemy.speed;
+        if (enemy.y >= BOSS_HOLD_Y) {
+          enemy.holdUntilTick = tick + ENEMY_ARCHETYPES.boss.holdTicks;
+          enemy.vx = BOSS_STRAFE_SPEED;
+        }
+      } else if (tick >= enemy.holdUntilTick) {
+        enemy.retreating = true;
+        enemy.y -= enemy.speed;
+      } else {
+        enemy.x += enemy.vx * (1 + (getBossPhase(enemy) - 1) / 2);
+        if (enemy.x <= 0 || enemy.x >= GAME_WIDTH - enemy.width) {
+          enemy.x = Math.min(GAME_WIDTH - enemy.width, Math.max(0, enemy.x));
+          enemy.vx = -enemy.vx;
+        }
+      }
+      break;
+
+    default:
+      enemy.y += enemy.speed;
+  }
+}
+
+function fireBoss(enemy: Enemy, player: Player, bullets: Bullet[]): void {
+  const aim = aimAt(enemy, player);
+  const phase = getBossPhase(enemy);
+
+  if (phase >= 2) {
+    for (const vx of BOSS_FAN) {
+      fireBullet(enemy, vx, bullets);
+    }
+  }
+  if (phase !== 2) {
+    for (const offset of BOSS_AIMED_SPREAD) {
+      fireBullet(enemy, aim + offset, bullets);
+    }
+  }
+}
+
+// Add the bullets the enemy fires this tick to bullets
+export function fireEnemy(enemy: Enemy, player: Player, tick: number, bullets: Bullet[]): void {
+  if (enemy.shootCooldownTicks === null || enemy.retreating) {
+    return;
+  }
+
+  // Bosses only open fire once in position, and fire twice as fast in their last phase
+  let cooldown = enemy.shootCooldownTicks;
+  if (enemy.type === 'boss') {
+    if (enemy.holdUntilTick === null) {
+      return;
+    }
+    if (getBossPhase(enemy) === 3) {
+      cooldown = Math.ceil(cooldown / 2);
+    }
+  }
+
+  if (tick - enemy.lastShotTick < cooldown) {
+    return;
+  }
+
+  enemy.lastShotTick = tick;
+
+  switch (enemy.type) {
+    case 'turret':
+      for (const vx of TURRET_SPREAD) {
+        fireBullet(enemy, vx, bullets);
+      }
+      break;
+    case 'boss':
+      fireBoss(enemy, player, bullets);
+      break;
+    default:
+      fireBullet(enemy, 0, bullets);
+  }
+}
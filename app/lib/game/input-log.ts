@@ -0,0 +1,106 @@
+// Compact per-tick input recording: only ticks where the input changes are stored
+
+import { MAX_PLAYERS } from './constants';
+import { InputFrame } from './types';
+
+// [tick, input bits] pairs in tick order. In co-op each ship's bits are shifted by
+// INPUT_BITS_PER_PLAYER times its index, so a solo log reads the same as before.
+export type InputLog = Array<[number, number]>;
+
+const INPUT_LEFT = 1;
+const INPUT_RIGHT = 2;
+const INPUT_FIRE = 4;
+const INPUT_BITS_PER_PLAYER = 3;
+
+export const EMPTY_INPUT: InputFrame = { left: false, right: false, fire: false };
+
+export function encodeInput(input: InputFrame): number {
+  return (input.left ? INPUT_LEFT : 0) | (input.right ? INPUT_RIGHT : 0) | (input.fire ? INPUT_FIRE : 0);
+}
+
+export function decodeInput(bits: number): InputFrame {
+  return {
+    left: (bits & INPUT_LEFT) !== 0,
+    right: (bits & INPUT_RIGHT) !== 0,
+    fire: (bits & INPUT_FIRE) !== 0,
+  };
+}
+
+export function encodeInputs(inputs: InputFrame[]): number {
+  return inputs.reduce((bits, input, index) => bits | (encodeInput(input) << (index * INPUT_BITS_PER_PLAYER)), 0);
+}
+
+export function decodeInputs(bits: number, playerCount: number): InputFrame[] {
+  return Array.from({ length: playerCount }, (_, index) => decodeInput(bits >> (index * INPUT_BITS_PER_PLAYER)));
+}
+
+export class InputRecorder {
+  private log: InputLog = [];
+  private lastBits = 0;
+
+  record(tick: number, inputs: InputFrame[]): void {
+    const bits = encodeInputs(inputs);
+    if (bits !== this.lastBits) {
+      this.log.push([tick, bits]);
+      this.lastBits = bits;
+    }
+  }
+
+  getLog(): InputLog {
+    return this.log.slice();
+  }
+
+  getRecording(ticks: number): RunRecording {
+    return { ticks, inputLog: this.getLog() };
+  }
+}
+
+// Replays an input log tick by tick. Ticks must be requested in increasing order.
+export class InputPlayback {
+  private cursor = 0;
+  private bits = 0;
+
+  constructor(private readonly log: InputLog, private readonly playerCount = 1) {}
+
+  inputAt(tick: number): InputFrame[] {
+    while (this.cursor < this.log.length && this.log[this.cursor][0] <= tick) {
+      this.bits = this.log[this.cursor][1];
+      this.cursor++;
+    }
+    return decodeInputs(this.bits, this.playerCount);
+  }
+}
+
+// Everything the player contributes to a run: how long it lasted and what they pressed. The
+// spawns, and with them the rest of the run, come from the session.
+export interface RunRecording {
+  ticks: number;
+  inputLog: InputLog;
+}
+
+// Structural check for input logs received from untrusted clients
+export function isValidInputLog(value: unknown, playerCount = 1): value is InputLog {
+  if (!Array.isArray(value)) return false;
+  if (!Number.isInteger(playerCount) || playerCount < 1 || playerCount > MAX_PLAYERS) return false;
+
+  const maxBits = (1 << (playerCount * INPUT_BITS_PER_PLAYER)) - 1;
+  let lastTick = -1;
+  for (const entry of value) {
+    if (!Array.isArray(entry) || entry.length !== 2) return false;
+    const [tick, bits] = entry;
+    if (!Number.isInteger(tick) || tick <= lastTick) return false;
+    if (!Number.isInteger(bits) || bits < 0 || bits > maxBits) return false;
+    lastTick = tick;
+  }
+
+  return true;
+}
+
+export function isValidRunRecording(value: unknown, playerCount = 1): value is RunRecording {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const recording = value as Record<string, unknown>;
+  return Number.isInteger(recording.ticks) &&
+    (recording.ticks as number) >= 0 &&
+    isValidInputLog(recording.inputLog, playerCount);
+}
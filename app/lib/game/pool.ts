@@ -0,0 +1,61 @@
+// Object pools for short-lived entities, so the game loop doesn't allocate a new object
+// for every bullet and enemy. Pooled objects are fully reinitialised on acquire, so reuse
+// never leaks state between entities (or runs) and the simulation stays deterministic.
+
+import { BULLET_WIDTH, BULLET_HEIGHT } from './constants';
+import { Bullet, Enemy } from './types';
+
+export class EntityPool<T> {
+  private free: T[] = [];
+
+  constructor(private create: () => T) {}
+
+  acquire(): T {
+    return this.free.pop() ?? this.create();
+  }
+
+  release(item: T): void {
+    this.free.push(item);
+  }
+}
+
+const bulletPool = new EntityPool<Bullet>(() => ({
+  x: 0, y: 0, width: BULLET_WIDTH, height: BULLET_HEIGHT, vx: 0, speed: 0, owner: null,
+}));
+
+export const enemyPool = new EntityPool<Enemy>(() => ({
+  id: 0, type: 'grunt', wave: 0, waveSize: 0, x: 0, y: 0, width: 0, height: 0,
+  hitpoints: 0, points: 0, drop: null, speed: 0, shootCooldownTicks: null, spawnTick: 0,
+  lastShotTick: 0, originX: 0, vx: 0, diving: false, holdUntilTick: null, retreating: false,
+}));
+
+export function acquireBullet(x: number, y: number, vx: number, speed: number, owner: number | null): Bullet {
+  const bullet = bulletPool.acquire();
+  bullet.x = x;
+  bullet.y = y;
+  bullet.width = BULLET_WIDTH;
+  bullet.height = BULLET_HEIGHT;
+  bullet.vx = vx;
+  bullet.speed = speed;
+  bullet.owner = owner;
+  return bullet;
+}
+
+export function releaseBullet(bullet: Bullet): void {
+  bulletPool.release(bullet);
+}
+
+// Remove every item that fails the test, in place and keeping order, handing removed
+// items to release. Safe to use while deciding removals, unlike splice inside a loop.
+export function removeWhere<T>(items: T[], shouldRemove: (item: T) => boolean, release?: (item: T) => void): void {
+  let kept = 0;
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (shouldRemove(item)) {
+      release?.(item);
+    } else {
+      items[kept++] = item;
+    }
+  }
+  items.length = kept;
+}
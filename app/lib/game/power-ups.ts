@@ -0,0 +1,59 @@
+// Power-ups dropped by destroyed enemies. Which enemies carry a drop is part of the
+// spawn schedule, so the server knows every pickup the player could possibly make.
+
+import { GAME_HEIGHT, TICK_RATE } from './constants';
+import { RngState, random } from './rng';
+import { EnemyType } from './enemies';
+
+export type PowerUpType = 'shield' | 'rapid_fire' | 'spread_shot' | 'extra_life';
+
+export interface PowerUpDefinition {
+  durationTicks: number | null; // null takes effect once and never expires
+  weight: number; // Relative chance of being the dropped power-up
+}
+
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+  shield: { durationTicks: 8 * TICK_RATE, weight: 3 },
+  rapid_fire: { durationTicks: 8 * TICK_RATE, weight: 3 },
+  spread_shot: { durationTicks: 10 * TICK_RATE, weight: 3 },
+  extra_life: { durationTicks: null, weight: 1 },
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
+
+export const POWER_UP_SIZE = 20;
+export const POWER_UP_FALL_SPEED = 2;
+export const POWER_UP_DROP_CHANCE = 0.08;
+
+export const RAPID_FIRE_COOLDOWN_TICKS = 5; // Instead of the usual 9
+export const SPREAD_SHOT_DRIFT = [-1.5, 0, 1.5]; // Sideways drift of each bullet in a spread
+
+export function isPowerUpType(value: unknown): value is PowerUpType {
+  return typeof value === 'string' && POWER_UP_TYPES.includes(value as PowerUpType);
+}
+
+// Decide what, if anything, an enemy drops. Bosses always leave an extra life.
+export function rollDrop(rng: RngState, enemy: EnemyType): PowerUpType | null {
+  if (enemy === 'boss') {
+    return 'extra_life';
+  }
+
+  if (random(rng) >= POWER_UP_DROP_CHANCE) {
+    return null;
+  }
+
+  const totalWeight = POWER_UP_TYPES.reduce((total, type) => total + POWER_UPS[type].weight, 0);
+  let roll = random(rng) * totalWeight;
+  for (const type of POWER_UP_TYPES) {
+    roll -= POWER_UPS[type].weight;
+    if (roll < 0) {
+      return type;
+    }
+  }
+  return POWER_UP_TYPES[POWER_UP_TYPES.length - 1];
+}
+
+// Last tick a drop released at or below the given height can still be collected
+export function getDropExpiryTick(killTick: number, y: number): number {
+  return killTick + Math.ceil((GAME_HEIGHT - y) / POWER_UP_FALL_SPEED);
+}
@@ -0,0 +1,87 @@
+// Plays a replay back through the simulation one tick at a time, with seeking.
+// Snapshots taken along the way let seeking backwards resume from nearby instead of from tick 0.
+
+import { TICK_RATE } from './constants';
+import { InputPlayback } from './input-log';
+import { Replay } from './replay';
+import { addSpawns, createGameState, stepGame } from './simulation';
+import { createSpawnSchedule, generateSpawns } from './spawns';
+import { GameEvent, GameState } from './types';
+
+const SNAPSHOT_INTERVAL_TICKS = 10 * TICK_RATE;
+
+export class ReplayPlayer {
+  private replay: Replay;
+  private state: GameState;
+  private playback: InputPlayback;
+  private snapshots = new Map<number, GameState>();
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+    this.state = this.createInitialState();
+    this.playback = new InputPlayback(replay.inputLog, replay.players);
+  }
+
+  getReplay(): Replay {
+    return this.replay;
+  }
+
+  getState(): GameState {
+    return this.state;
+  }
+
+  getTick(): number {
+    return this.state.tick;
+  }
+
+  getLength(): number {
+    return this.replay.ticks;
+  }
+
+  isFinished(): boolean {
+    return this.state.isOver || this.state.tick >= this.replay.ticks;
+  }
+
+  // Advance one tick and return what happened during it
+  step(): GameEvent[] {
+    if (this.isFinished()) {
+      return [];
+    }
+
+    if (this.state.tick % SNAPSHOT_INTERVAL_TICKS === 0 && !this.snapshots.has(this.state.tick)) {
+      this.snapshots.set(this.state.tick, structuredClone(this.state));
+    }
+
+    return stepGame(this.state, this.playback.inputAt(this.state.tick));
+  }
+
+  // Jump to a tick, replaying silently from the closest snapshot before it
+  seek(tick: number): void {
+    const target = Math.max(0, Math.min(Math.floor(tick), this.replay.ticks));
+
+    let from = Math.floor(target / SNAPSHOT_INTERVAL_TICKS) * SNAPSHOT_INTERVAL_TICKS;
+    while (from > 0 && !this.snapshots.has(from)) {
+      from -= SNAPSHOT_INTERVAL_TICKS;
+    }
+
+    // Going back always restarts; going forward only does when a snapshot is closer than the current tick
+    if (target < this.state.tick || from > this.state.tick) {
+      const snapshot = this.snapshots.get(from);
+      // Snapshots are only ever copied from, so they can be returned to again
+      this.state = snapshot ? structuredClone(snapshot) : this.createInitialState();
+      // Input playback only moves forwards, so start it over
+      this.playback = new InputPlayback(this.replay.inputLog, this.replay.players);
+    }
+
+    while (this.state.tick < target && !this.state.isOver) {
+      this.step();
+    }
+  }
+
+  private createInitialState(): GameState {
+    const { spawnSeed, difficulty, players, ticks } = this.replay;
+    const state = createGameState(difficulty, players);
+    addSpawns(state, generateSpawns(createSpawnSchedule(spawnSeed, difficulty), ticks), ticks);
+    return state;
+  }
+}
@@ -0,0 +1,92 @@
+// Replays: a run stored as its spawn seed, mode and per-tick inputs. The simulation reproduces
+// everything else, so a replay of a long run is still only a few kilobytes of JSON.
+
+import { GAME_VERSION, MAX_PLAYERS, TICK_RATE } from './constants';
+import { Difficulty, isDifficulty } from './difficulty';
+import { InputLog, RunRecording, isValidInputLog } from './input-log';
+
+export const REPLAY_FORMAT = 'space-shooter-replay';
+export const REPLAY_FORMAT_VERSION = 2; // 2 added co-op; version 1 files are solo runs
+
+// Longer than any session the server accepts, so a corrupt file can't stall the viewer
+const MAX_REPLAY_TICKS = 30 * 60 * TICK_RATE;
+
+export interface Replay {
+  format: typeof REPLAY_FORMAT;
+  version: number; // Layout of the file
+  gameVersion: number; // Simulation the run was played on; another one would play it back differently
+  spawnSeed: number;
+  difficulty: Difficulty;
+  players: number; // Ships in the run, 2 for co-op
+  ticks: number;
+  score: number;
+  inputLog: InputLog;
+  recordedAt: number;
+}
+
+export function createReplay(
+  recording: RunRecording,
+  spawnSeed: number,
+  difficulty: Difficulty,
+  score: number,
+  players = 1
+): Replay {
+  return {
+    format: REPLAY_FORMAT,
+    version: REPLAY_FORMAT_VERSION,
+    gameVersion: GAME_VERSION,
+    spawnSeed,
+    difficulty,
+    players,
+    ticks: recording.ticks,
+    score,
+    inputLog: recording.inputLog,
+    recordedAt: Date.now(),
+  };
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+// Check a replay read from a file or storage before it is played back
+export function parseReplay(text: string): { valid: boolean; replay?: Replay; error?: string } {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { valid: false, error: 'Replay file is not valid JSON' };
+  }
+
+  if (typeof data !== 'object' || data === null || data.format !== REPLAY_FORMAT) {
+    return { valid: false, error: 'Not a replay file' };
+  }
+
+  if (data.version === 1) {
+    data = { ...data, version: REPLAY_FORMAT_VERSION, players: 1 };
+  } else if (data.version !== REPLAY_FORMAT_VERSION) {
+    return { valid: false, error: `Unsupported replay version ${data.version}` };
+  }
+
+  if (data.gameVersion !== GAME_VERSION) {
+    return { valid: false, error: 'Replay was recorded on a different version of the game' };
+  }
+
+  if (!Number.isInteger(data.spawnSeed) || !isDifficulty(data.difficulty)) {
+    return { valid: false, error: 'Replay is missing its seed or mode' };
+  }
+
+  if (!Number.isInteger(data.players) || (data.players as number) < 1 || (data.players as number) > MAX_PLAYERS) {
+    return { valid: false, error: 'Replay has an unsupported number of players' };
+  }
+
+  if (!Number.isInteger(data.ticks) || (data.ticks as number) < 0 || (data.ticks as number) > MAX_REPLAY_TICKS) {
+    return { valid: false, error: 'Replay length is out of range' };
+  }
+
+  if (!Number.isInteger(data.score) || !Number.isFinite(data.recordedAt) || !isValidInputLog(data.inputLog, data.players as number)) {
+    return { valid: false, error: 'Replay is malformed' };
+  }
+
+  return { valid: true, replay: data as unknown as Replay };
+}
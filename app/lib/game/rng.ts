@@ -0,0 +1,39 @@
+// Seeded pseudo-random number generator (mulberry32).
+// State is a plain object so game state stays serialisable and cloneable.
+
+export interface RngState {
+  state: number;
+}
+
+export function createRng(seed: number): RngState {
+  return { state: seed >>> 0 };
+}
+
+// Returns a float in [0, 1)
+export function random(rng: RngState): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function randomRange(rng: RngState, min: number, max: number): number {
+  return min + random(rng) * (max - min);
+}
+
+export function randomInt(rng: RngState, min: number, max: number): number {
+  return Math.floor(randomRange(rng, min, max + 1));
+}
+
+// Derive an independent stream from a seed, so one stream's draws never shift another's
+export function deriveSeed(seed: number, stream: number): number {
+  let h = (seed ^ Math.imul(stream + 1, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
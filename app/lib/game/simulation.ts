@@ -0,0 +1,355 @@
+// Deterministic, fixed-timestep game simulation.
+// No wall-clock time and no Math.random: the same spawns and input stream always
+// produce the same run, whatever the display refresh rate, in the browser or headless.
+
+import {
+  GAME_WIDTH,
+  GAME_HEIGHT,
+  PLAYER_WIDTH,
+  PLAYER_HEIGHT,
+  PLAYER_SPEED,
+  PLAYER_SHOT_COOLDOWN_TICKS,
+  PLAYER_LIVES,
+  PLAYER_MAX_HEALTH,
+  PLAYER_INVULNERABLE_TICKS,
+  BULLET_WIDTH,
+  BULLET_SPEED,
+  MAX_PLAYERS,
+} from './constants';
+import { breakCombo, createCombo, scoreComboKill } from './combo';
+import { Difficulty, applyScoreMultiplier } from './difficulty';
+import { fireEnemy, moveEnemy, releaseEnemy, spawnEnemy } from './enemies';
+import { acquireBullet, releaseBullet, removeWhere } from './pool';
+import {
+  POWER_UPS,
+  POWER_UP_SIZE,
+  POWER_UP_FALL_SPEED,
+  POWER_UP_TYPES,
+  RAPID_FIRE_COOLDOWN_TICKS,
+  SPREAD_SHOT_DRIFT,
+} from './power-ups';
+import { EMPTY_INPUT, InputLog, InputPlayback } from './input-log';
+import { SpawnToken, createSpawnSchedule, generateSpawns } from './spawns';
+import { SpatialHash } from './spatial-hash';
+import { getWaveAtTick, getWaveSettings } from './waves';
+import { GameEvent, GameState, InputFrame, Player, Rect } from './types';
+
+// A solo ship starts in the middle; co-op ships start a third of the way in from each side
+function createPlayer(index: number, playerCount: number): Player {
+  return {
+    x: GAME_WIDTH * (index + 1) / (playerCount + 1) - PLAYER_WIDTH / 2,
+    y: GAME_HEIGHT - 50,
+    width: PLAYER_WIDTH,
+    height: PLAYER_HEIGHT,
+    speed: PLAYER_SPEED,
+    health: PLAYER_MAX_HEALTH,
+    score: 0,
+    enemiesKilled: 0,
+    invulnerableUntilTick: 0,
+    lastShotTick: -PLAYER_SHOT_COOLDOWN_TICKS,
+    powerUps: {},
+  };
+}
+
+export function createGameState(difficulty: Difficulty, playerCount = 1): GameState {
+  const count = Math.max(1, Math.min(MAX_PLAYERS, Math.floor(playerCount)));
+  return {
+    difficulty,
+    tick: 0,
+    score: 0,
+    enemiesKilled: 0,
+    shotsFired: 0,
+    hitsLanded: 0,
+    hitsTaken: 0,
+    combo: createCombo(),
+    wave: 0,
+    waveKills: {},
+    isOver: false,
+    players: Array.from({ length: count }, (_, index) => createPlayer(index, count)),
+    lives: PLAYER_LIVES,
+    enemies: [],
+    playerBullets: [],
+    enemyBullets: [],
+    drops: [],
+    pendingSpawns: [],
+    spawnHorizon: 0,
+  };
+}
+
+// Queue spawns for upcoming ticks; spawns are then known up to (not including) horizon
+export function addSpawns(state: GameState, spawns: SpawnToken[], horizon: number): void {
+  for (const spawn of spawns) {
+    if (spawn.tick >= state.tick && spawn.tick < horizon &&
+        !state.pendingSpawns.some(pending => pending.id === spawn.id)) {
+      state.pendingSpawns.push(spawn);
+    }
+  }
+  state.pendingSpawns.sort((a, b) => a.tick - b.tick);
+  state.spawnHorizon = Math.max(state.spawnHorizon, horizon);
+}
+
+// The next tick can only run once its spawns are known
+export function canStep(state: GameState): boolean {
+  return !state.isOver && state.tick < state.spawnHorizon;
+}
+
+// Broad phase for player bullets vs enemies, rebuilt every tick
+const COLLISION_CELL_SIZE = 64;
+const enemyGrid = new SpatialHash(GAME_WIDTH, GAME_HEIGHT, COLLISION_CELL_SIZE);
+
+function overlaps(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width &&
+    a.x + a.width > b.x &&
+    a.y < b.y + b.height &&
+    a.y + a.height > b.y;
+}
+
+// Enemies go after the ship closest to them across the screen, the first one on a tie
+function nearestPlayer(players: Player[], x: number): Player {
+  let nearest = players[0];
+  let nearestDistance = Math.abs(nearest.x + nearest.width / 2 - x);
+  for (let i = 1; i < players.length; i++) {
+    const distance = Math.abs(players[i].x + players[i].width / 2 - x);
+    if (distance < nearestDistance) {
+      nearest = players[i];
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+// Advance the game by one tick and return what happened during it. Takes one input per
+// ship; ships act in index order.
+export function stepGame(state: GameState, inputs: InputFrame[]): GameEvent[] {
+  if (!canStep(state)) {
+    return [];
+  }
+
+  const events: GameEvent[] = [];
+  const tick = state.tick;
+  const players = state.players;
+
+  const wave = getWaveAtTick(tick);
+  if (wave !== state.wave) {
+    state.wave = wave;
+    events.push({ type: 'wave_started', tick, wave });
+  }
+
+  // Timed power-ups run out
+  players.forEach((player, index) => {
+    for (const powerUp of POWER_UP_TYPES) {
+      const expiresAt = player.powerUps[powerUp];
+      if (expiresAt !== undefined && tick >= expiresAt) {
+        delete player.powerUps[powerUp];
+        events.push({ type: 'power_up_expired', tick, player: index, powerUp });
+      }
+    }
+  });
+
+  // Move players
+  players.forEach((player, index) => {
+    const input = inputs[index] ?? EMPTY_INPUT;
+    if (input.left && player.x > 0) {
+      player.x = Math.max(0, player.x - player.speed);
+    }
+    if (input.right && player.x < GAME_WIDTH - player.width) {
+      player.x = Math.min(GAME_WIDTH - player.width, player.x + player.speed);
+    }
+  });
+
+  // Drops fall and are collected by the first ship to touch them. Extra lives go to the
+  // shared pool; timed power-ups only affect the ship that collected them.
+  for (const drop of state.drops) {
+    drop.y += POWER_UP_FALL_SPEED;
+  }
+  removeWhere(state.drops, drop => {
+    const index = players.findIndex(player => overlaps(drop, player));
+    if (index !== -1) {
+      const duration = POWER_UPS[drop.type].durationTicks;
+      if (duration === null) {
+        state.lives++;
+      } else {
+        players[index].powerUps[drop.type] = tick + duration;
+      }
+      events.push({ type: 'power_up_collected', tick, player: index, enemyId: drop.enemyId, powerUp: drop.type });
+      return true;
+    }
+    return drop.y > GAME_HEIGHT;
+  });
+
+  // Player shooting
+  players.forEach((player, index) => {
+    const shotCooldown = player.powerUps.rapid_fire !== undefined
+      ? RAPID_FIRE_COOLDOWN_TICKS
+      : PLAYER_SHOT_COOLDOWN_TICKS;
+
+    if ((inputs[index] ?? EMPTY_INPUT).fire && tick - player.lastShotTick >= shotCooldown) {
+      const drifts = player.powerUps.spread_shot !== undefined ? SPREAD_SHOT_DRIFT : [0];
+      for (const vx of drifts) {
+        state.playerBullets.push(
+          acquireBullet(player.x + player.width / 2 - BULLET_WIDTH / 2, player.y, vx, BULLET_SPEED, index)
+        );
+      }
+      player.lastShotTick = tick;
+      state.shotsFired += drifts.length;
+      events.push({ type: 'shot_fired', tick, player: index, bullets: drifts.length });
+    }
+  });
+
+  // Spawn enemies scheduled for this tick
+  while (state.pendingSpawns.length > 0 && state.pendingSpawns[0].tick <= tick) {
+    state.enemies.push(spawnEnemy(state.pendingSpawns.shift()!, tick));
+  }
+
+  // Move enemies and let them shoot
+  for (const enemy of state.enemies) {
+    const target = nearestPlayer(players, enemy.x + enemy.width / 2);
+    moveEnemy(enemy, target, tick);
+    fireEnemy(enemy, target, tick, state.enemyBullets);
+  }
+  removeWhere(
+    state.enemies,
+    enemy => enemy.y > GAME_HEIGHT || (enemy.retreating && enemy.y + enemy.height < 0),
+    releaseEnemy
+  );
+
+  // Move bullets
+  for (const bullet of state.playerBullets) {
+    bullet.x += bullet.vx;
+    bullet.y -= bullet.speed;
+  }
+  removeWhere(
+    state.playerBullets,
+    bullet => bullet.y < 0 || bullet.x + bullet.width < 0 || bullet.x > GAME_WIDTH,
+    releaseBullet
+  );
+
+  for (const bullet of state.enemyBullets) {
+    bullet.x += bullet.vx;
+    bullet.y += bullet.speed;
+  }
+  removeWhere(
+    state.enemyBullets,
+    bullet => bullet.y > GAME_HEIGHT || bullet.x + bullet.width < 0 || bullet.x > GAME_WIDTH,
+    releaseBullet
+  );
+
+  // Player bullets vs enemies - each bullet damages at most one enemy, the first in
+  // spawn order it overlaps. Destroyed enemies are at 0 hitpoints until removed below.
+  enemyGrid.clear();
+  state.enemies.forEach((enemy, index) => enemyGrid.insert(index, enemy));
+
+  removeWhere(state.playerBullets, bullet => {
+    let targetIndex = -1;
+    enemyGrid.query(bullet, index => {
+      const enemy = state.enemies[index];
+      if ((targetIndex === -1 || index < targetIndex) && enemy.hitpoints > 0 && overlaps(bullet, enemy)) {
+        targetIndex = index;
+      }
+    });
+    if (targetIndex === -1) {
+      return false;
+    }
+
+    const target = state.enemies[targetIndex];
+    target.hitpoints--;
+    state.hitsLanded++;
+    if (target.hitpoints > 0) {
+      events.push({ type: 'enemy_hit', tick, enemyId: target.id, hitpointsLeft: target.hitpoints });
+      return true;
+    }
+
+    if (target.drop) {
+      state.drops.push({
+        x: target.x + target.width / 2 - POWER_UP_SIZE / 2,
+        y: target.y + target.height / 2 - POWER_UP_SIZE / 2,
+        width: POWER_UP_SIZE,
+        height: POWER_UP_SIZE,
+        type: target.drop,
+        enemyId: target.id,
+      });
+    }
+    // The kill is credited to the ship that fired the bullet
+    const shooter = bullet.owner ?? 0;
+    const points = scoreComboKill(state.combo, tick, applyScoreMultiplier(target.points, state.difficulty));
+    state.score += points;
+    state.enemiesKilled++;
+    players[shooter].score += points;
+    players[shooter].enemiesKilled++;
+    events.push({
+      type: target.type === 'boss' ? 'boss_defeated' : 'enemy_killed',
+      tick,
+      player: shooter,
+      enemyId: target.id,
+      points,
+    });
+
+    // Destroying every enemy of a wave earns its clear bonus
+    state.waveKills[target.wave] = (state.waveKills[target.wave] || 0) + 1;
+    if (state.waveKills[target.wave] === target.waveSize) {
+      const bonus = getWaveSettings(target.wave, state.difficulty).clearBonus;
+      state.score += bonus;
+      events.push({ type: 'wave_cleared', tick, wave: target.wave, bonus });
+    }
+    return true;
+  }, releaseBullet);
+  removeWhere(state.enemies, enemy => enemy.hitpoints <= 0, releaseEnemy);
+
+  // Enemy bullets and enemies vs players. A ship can't be hit again for a moment after
+  // each hit. Whatever hits it is destroyed (enemies that crash into it score nothing),
+  // and a shield absorbs the hit entirely. A destroyed ship is replaced from the shared
+  // pool of lives, and the game ends when the pool runs out.
+  players.forEach((player, index) => {
+    if (state.isOver || tick < player.invulnerableUntilTick) {
+      return;
+    }
+
+    const bulletCount = state.enemyBullets.length;
+    const enemyCount = state.enemies.length;
+    removeWhere(state.enemyBullets, bullet => overlaps(bullet, player), releaseBullet);
+    removeWhere(state.enemies, enemy => overlaps(enemy, player), releaseEnemy);
+
+    if (state.enemyBullets.length < bulletCount || state.enemies.length < enemyCount) {
+      if (player.powerUps.shield === undefined) {
+        state.hitsTaken++;
+        breakCombo(state.combo, tick);
+        player.health--;
+        player.invulnerableUntilTick = tick + PLAYER_INVULNERABLE_TICKS;
+
+        if (player.health <= 0) {
+          state.lives--;
+          player.health = state.lives > 0 ? PLAYER_MAX_HEALTH : 0;
+        }
+        events.push({ type: 'player_hit', tick, player: index, health: player.health, lives: state.lives });
+
+        if (state.lives <= 0) {
+          state.isOver = true;
+          events.push({ type: 'player_died', tick });
+        }
+      }
+    }
+  });
+
+  state.tick++;
+  return events;
+}
+
+// Run a whole game headlessly from its spawn seed, mode and recorded inputs
+export function simulateRun(
+  spawnSeed: number,
+  difficulty: Difficulty,
+  inputLog: InputLog,
+  maxTicks: number,
+  playerCount = 1
+): GameState {
+  const state = createGameState(difficulty, playerCount);
+  const playback = new InputPlayback(inputLog, state.players.length);
+
+  addSpawns(state, generateSpawns(createSpawnSchedule(spawnSeed, difficulty), maxTicks), maxTicks);
+
+  while (!state.isOver && state.tick < maxTicks) {
+    stepGame(state, playback.inputAt(state.tick));
+  }
+
+  return state;
+}
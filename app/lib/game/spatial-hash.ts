@@ -0,0 +1,67 @@
+// Uniform-grid broad phase for collision checks. Entities are bucketed by the cells their
+// bounds cover, so a query only visits entities near the queried area instead of all of them.
+
+import { Rect } from './types';
+
+export class SpatialHash {
+  private readonly columns: number;
+  private readonly rows: number;
+  private readonly cells: number[][];
+  // Per-index stamp of the last query that visited it, so entities spanning several
+  // cells are reported once without allocating a set per query
+  private visited: number[] = [];
+  private queryId = 0;
+
+  constructor(width: number, height: number, private readonly cellSize: number) {
+    this.columns = Math.ceil(width / cellSize);
+    this.rows = Math.ceil(height / cellSize);
+    this.cells = Array.from({ length: this.columns * this.rows }, () => []);
+  }
+
+  clear(): void {
+    for (const cell of this.cells) {
+      cell.length = 0;
+    }
+  }
+
+  // Entities are identified by their index in the caller's list
+  insert(index: number, rect: Rect): void {
+    this.forEachCell(rect, cell => cell.push(index));
+  }
+
+  // Visit the index of every inserted entity whose cells overlap the rect, once each
+  query(rect: Rect, visit: (index: number) => void): void {
+    const queryId = ++this.queryId;
+
+    this.forEachCell(rect, cell => {
+      for (const index of cell) {
+        if (this.visited[index] !== queryId) {
+          this.visited[index] = queryId;
+          visit(index);
+        }
+      }
+    });
+  }
+
+  // Off-screen entities are clamped into the border cells
+  private forEachCell(rect: Rect, visit: (cell: number[]) => void): void {
+    const left = this.clampColumn(Math.floor(rect.x / this.cellSize));
+    const right = this.clampColumn(Math.floor((rect.x + rect.width) / this.cellSize));
+    const top = this.clampRow(Math.floor(rect.y / this.cellSize));
+    const bottom = this.clampRow(Math.floor((rect.y + rect.height) / this.cellSize));
+
+    for (let row = top; row <= bottom; row++) {
+      for (let column = left; column <= right; column++) {
+        visit(this.cells[row * this.columns + column]);
+      }
+    }
+  }
+
+  private clampColumn(column: number): number {
+    return Math.min(this.columns - 1, Math.max(0, column));
+  }
+
+  private clampRow(row: number): number {
+    return Math.min(this.rows - 1, Math.max(0, row));
+  }
+}
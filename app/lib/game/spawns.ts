@@ -0,0 +1,98 @@
+// Enemy spawn schedule. Spawns come from their own seed so the server can decide them
+// and hand them out ahead of time as tokens, independent of anything the player does.
+// Whole waves are generated at once, so the schedule always ends on a wave boundary.
+
+import { GAME_HEIGHT, GAME_WIDTH } from './constants';
+import { ENEMY_ARCHETYPES, EnemyType } from './enemies';
+import { PowerUpType, rollDrop } from './power-ups';
+import { Difficulty } from './difficulty';
+import { RngState, createRng, deriveSeed, random } from './rng';
+import { FORMATIONS, getWaveSettings, getWaveStartTick } from './waves';
+
+export interface SpawnToken {
+  id: number;
+  type: EnemyType;
+  tick: number;
+  x: number;
+  y: number;
+  wave: number;
+  waveSize: number; // Enemies in the whole wave, for the clear bonus
+  speed: number;
+  shootCooldownTicks: number | null;
+  drop: PowerUpType | null; // Left behind when destroyed
+}
+
+export interface SpawnScheduleState {
+  difficulty: Difficulty;
+  rng: RngState;
+  dropRng: RngState; // Separate stream, so drops never shift formation placement
+  nextWave: number;
+  nextTick: number; // First tick not generated yet (start of nextWave)
+  nextId: number;
+}
+
+export function createSpawnSchedule(spawnSeed: number, difficulty: Difficulty): SpawnScheduleState {
+  return {
+    difficulty,
+    rng: createRng(spawnSeed),
+    dropRng: createRng(deriveSeed(spawnSeed, 1)),
+    nextWave: 1,
+    nextTick: 0,
+    nextId: 1,
+  };
+}
+
+function generateWave(schedule: SpawnScheduleState): SpawnToken[] {
+  const settings = getWaveSettings(schedule.nextWave, schedule.difficulty);
+  const startTick = getWaveStartTick(schedule.nextWave);
+  const groupInterval = settings.spawnWindowTicks / settings.groups.length;
+  const waveSize = settings.groups.reduce((total, group) => total + FORMATIONS[group.formation].length, 0);
+  const spawns: SpawnToken[] = [];
+
+  settings.groups.forEach((group, index) => {
+    const archetype = ENEMY_ARCHETYPES[group.enemy];
+    const offsets = FORMATIONS[group.formation];
+    const formationWidth = Math.max(...offsets.map(offset => offset.dx)) + archetype.width;
+    const anchorX = random(schedule.rng) * (GAME_WIDTH - formationWidth);
+    const tick = startTick + Math.floor(index * groupInterval);
+
+    for (const offset of offsets) {
+      spawns.push({
+        id: schedule.nextId++,
+        type: group.enemy,
+        tick,
+        x: anchorX + offset.dx,
+        y: -archetype.height + offset.dy,
+        wave: settings.wave,
+        waveSize,
+        speed: settings.enemySpeed * archetype.speedFactor,
+        shootCooldownTicks: archetype.fireCooldownFactor === null
+          ? null
+          : Math.round(settings.enemyShootCooldownTicks * archetype.fireCooldownFactor),
+        drop: rollDrop(schedule.dropRng, group.enemy),
+      });
+    }
+  });
+
+  schedule.nextWave++;
+  schedule.nextTick = getWaveStartTick(schedule.nextWave);
+  return spawns;
+}
+
+// Generate every wave that starts before untilTick and hasn't been generated yet.
+// Spawns are then known up to schedule.nextTick, which may lie beyond untilTick.
+export function generateSpawns(schedule: SpawnScheduleState, untilTick: number): SpawnToken[] {
+  const spawns: SpawnToken[] = [];
+
+  while (schedule.nextTick < untilTick) {
+    spawns.push(...generateWave(schedule));
+  }
+
+  return spawns;
+}
+
+// Last tick on which a spawned enemy can still be on screen. Enemies never descend slower
+// than their token speed, but some hover for a while on the way down.
+export function getSpawnExpiryTick(spawn: SpawnToken): number {
+  return spawn.tick + Math.ceil((GAME_HEIGHT - spawn.y) / spawn.speed) + ENEMY_ARCHETYPES[spawn.type].holdTicks;
+}
@@ -0,0 +1,100 @@
+// Game simulation types
+
+import { ComboState } from './combo';
+import { Difficulty } from './difficulty';
+import { EnemyType } from './enemies';
+import { PowerUpType } from './power-ups';
+import { SpawnToken } from './spawns';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Player extends Rect {
+  speed: number;
+  health: number; // Of the current ship; losing it all costs a life from the shared pool
+  score: number; // Points from this ship's own kills
+  enemiesKilled: number;
+  invulnerableUntilTick: number;
+  lastShotTick: number;
+  powerUps: Partial<Record<PowerUpType, number>>; // Active timed power-ups and the tick each expires
+}
+
+export interface Enemy extends Rect {
+  id: number;
+  type: EnemyType;
+  wave: number;
+  waveSize: number;
+  hitpoints: number;
+  points: number;
+  drop: PowerUpType | null;
+  speed: number;
+  shootCooldownTicks: number | null;
+  spawnTick: number;
+  lastShotTick: number;
+  // Movement pattern state
+  originX: number;
+  vx: number;
+  diving: boolean;
+  holdUntilTick: number | null;
+  retreating: boolean; // Leaving through the top of the screen
+}
+
+export interface Bullet extends Rect {
+  vx: number; // Sideways drift per tick
+  speed: number;
+  owner: number | null; // Index of the ship that fired it; null for enemy bullets
+}
+
+// A power-up falling from where its enemy was destroyed
+export interface PowerUpDrop extends Rect {
+  type: PowerUpType;
+  enemyId: number;
+}
+
+// What the player is asking the ship to do during one tick
+export interface InputFrame {
+  left: boolean;
+  right: boolean;
+  fire: boolean;
+}
+
+// Events about one ship carry its index in GameState.players
+export type GameEvent =
+  | { type: 'shot_fired'; tick: number; player: number; bullets: number }
+  | { type: 'enemy_hit'; tick: number; enemyId: number; hitpointsLeft: number }
+  | { type: 'enemy_killed'; tick: number; player: number; enemyId: number; points: number }
+  | { type: 'boss_defeated'; tick: number; player: number; enemyId: number; points: number }
+  | { type: 'wave_started'; tick: number; wave: number }
+  | { type: 'wave_cleared'; tick: number; wave: number; bonus: number }
+  | { type: 'power_up_collected'; tick: number; player: number; enemyId: number; powerUp: PowerUpType }
+  | { type: 'power_up_expired'; tick: number; player: number; powerUp: PowerUpType }
+  | { type: 'player_hit'; tick: number; player: number; health: number; lives: number }
+  | { type: 'player_died'; tick: number };
+
+export interface GameState {
+  difficulty: Difficulty;
+  tick: number;
+  score: number; // The whole team's, including wave clear bonuses
+  enemiesKilled: number;
+  shotsFired: number; // Bullets, so a spread shot counts each of its bullets
+  hitsLanded: number; // Bullets that hit an enemy
+  hitsTaken: number;
+  combo: ComboState;
+  wave: number;
+  waveKills: Record<number, number>;
+  isOver: boolean;
+  players: Player[]; // One ship, or two in co-op
+  lives: number; // Shared pool, including the ships in play
+  enemies: Enemy[];
+  playerBullets: Bullet[];
+  enemyBullets: Bullet[];
+  drops: PowerUpDrop[];
+  // Spawns handed out by the server (or a local schedule), in tick order
+  pendingSpawns: SpawnToken[];
+  // Spawns are known for every tick before this one; the game can't advance past it
+  spawnHorizon: number;
+}
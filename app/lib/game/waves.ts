@@ -0,0 +1,96 @@
+// Data-driven wave progression. Waves follow a fixed timeline so the spawn schedule never
+// depends on how the player is doing; only the difficulty of each wave rises.
+
+import { ENEMY_SPEED, ENEMY_SHOOT_COOLDOWN_TICKS, TICK_RATE } from './constants';
+import { EnemyType } from './enemies';
+import { DIFFICULTIES, Difficulty, applyScoreMultiplier } from './difficulty';
+
+export type FormationName = 'single' | 'pair' | 'line' | 'v' | 'column' | 'pincer';
+
+// Offsets of each ship from the formation's anchor; dy is negative so ships enter in order
+export const FORMATIONS: Record<FormationName, Array<{ dx: number; dy: number }>> = {
+  single: [{ dx: 0, dy: 0 }],
+  pair: [{ dx: 0, dy: 0 }, { dx: 60, dy: 0 }],
+  line: [0, 1, 2, 3, 4].map(i => ({ dx: i * 50, dy: 0 })),
+  v: [
+    { dx: 80, dy: 0 },
+    { dx: 40, dy: -40 }, { dx: 120, dy: -40 },
+    { dx: 0, dy: -80 }, { dx: 160, dy: -80 },
+  ],
+  column: [0, 1, 2].map(i => ({ dx: 0, dy: -i * 45 })),
+  pincer: [{ dx: 0, dy: 0 }, { dx: 0, dy: -45 }, { dx: 700, dy: 0 }, { dx: 700, dy: -45 }],
+};
+
+// One formation of a single enemy type
+export interface WaveGroup {
+  formation: FormationName;
+  enemy: EnemyType;
+}
+
+export interface WaveDefinition {
+  groups: WaveGroup[]; // In the order they enter
+}
+
+function group(formation: FormationName, enemy: EnemyType = 'grunt'): WaveGroup {
+  return { formation, enemy };
+}
+
+// Hand-authored opening waves; later waves cycle through these with extra groups
+export const WAVES: WaveDefinition[] = [
+  { groups: [group('single'), group('single'), group('single'), group('single'), group('single'), group('single')] },
+  { groups: [group('pair'), group('single', 'zigzag'), group('pair'), group('single', 'zigzag'), group('pair')] },
+  { groups: [group('line'), group('single', 'tank'), group('line'), group('pair', 'kamikaze')] },
+  { groups: [group('column', 'zigzag'), group('pair', 'turret'), group('column'), group('pair', 'kamikaze'), group('v')] },
+  { groups: [group('v'), group('line', 'zigzag'), group('pair', 'tank'), group('column', 'kamikaze'), group('pincer', 'turret')] },
+  { groups: [group('pincer', 'kamikaze'), group('line'), group('v', 'zigzag'), group('column', 'tank'), group('line'), group('pair', 'turret')] },
+];
+
+export const WAVE_DURATION_TICKS = 20 * TICK_RATE;
+export const WAVE_SPAWN_WINDOW_TICKS = 14 * TICK_RATE; // Groups enter during the first part of the wave
+export const WAVE_CLEAR_BONUS = 50; // Multiplied by the wave number
+export const BOSS_WAVE_INTERVAL = 5; // Every 5th wave opens with a boss
+
+export function isBossWave(wave: number): boolean {
+  return wave % BOSS_WAVE_INTERVAL === 0;
+}
+
+export interface WaveSettings {
+  wave: number;
+  groups: WaveGroup[];
+  enemySpeed: number;
+  enemyShootCooldownTicks: number;
+  spawnWindowTicks: number;
+  clearBonus: number;
+}
+
+// Waves are numbered from 1
+export function getWaveSettings(wave: number, difficulty: Difficulty): WaveSettings {
+  const mode = DIFFICULTIES[difficulty];
+  const base = WAVES[(wave - 1) % WAVES.length];
+  const cycle = Math.floor((wave - 1) / WAVES.length);
+
+  // Each pass through the table repeats its busiest groups again
+  const groups = isBossWave(wave) ? [group('single', 'boss'), ...base.groups] : [...base.groups];
+  for (let i = 0; i < cycle * 2; i++) {
+    groups.push(base.groups[i % base.groups.length]);
+  }
+
+  return {
+    wave,
+    groups,
+    enemySpeed: Math.min(ENEMY_SPEED * (1 + 0.08 * (wave - 1)), ENEMY_SPEED * 2) * mode.enemySpeedFactor,
+    enemyShootCooldownTicks: Math.round(
+      Math.max(24, ENEMY_SHOOT_COOLDOWN_TICKS - 4 * (wave - 1)) * mode.fireCooldownFactor
+    ),
+    spawnWindowTicks: Math.round(WAVE_SPAWN_WINDOW_TICKS * mode.spawnWindowFactor),
+    clearBonus: applyScoreMultiplier(WAVE_CLEAR_BONUS * wave, difficulty),
+  };
+}
+
+export function getWaveStartTick(wave: number): number {
+  return (wave - 1) * WAVE_DURATION_TICKS;
+}
+
+export function getWaveAtTick(tick: number): number {
+  return Math.floor(Math.max(0, tick) / WAVE_DURATION_TICKS) + 1;
+}
@@ -0,0 +1,173 @@
+// Maps keyboard, gamepad and on-screen touch controls to game intents. The game loop
+// only ever reads the merged intents, never raw keys or buttons.
+// In co-op, touch controls and the first gamepad play as player one and the second
+// gamepad as player two; the keyboard is shared through the bindings.
+
+import { InputFrame } from '../game/types';
+import {
+  ActionIntent,
+  GAME_INTENTS,
+  GameIntent,
+  HeldIntent,
+  KeyBindings,
+  PLAYER_INTENTS,
+  isHeldIntent,
+  isPlayerTwoIntent,
+} from './key-bindings';
+
+// Standard gamepad layout: d-pad, left stick, A / right trigger to fire, Start to pause, Back/Select to restart
+const GAMEPAD_LEFT_BUTTON = 14;
+const GAMEPAD_RIGHT_BUTTON = 15;
+const GAMEPAD_FIRE_BUTTONS = [0, 7];
+const GAMEPAD_ACTION_BUTTONS: Record<ActionIntent, number> = { pause: 9, restart: 8 };
+const GAMEPAD_STICK_DEADZONE = 0.3;
+
+type IntentState = Record<HeldIntent, boolean>;
+
+function emptyIntents(): IntentState {
+  return { left: false, right: false, fire: false, p2Left: false, p2Right: false, p2Fire: false };
+}
+
+export class InputManager {
+  private bindings: KeyBindings;
+  private keyboard = emptyIntents();
+  private touch = emptyIntents();
+  private gamepad = emptyIntents();
+  private gamepadActions: Partial<Record<ActionIntent, boolean>> = {};
+  private heldKeys = new Set<string>();
+  private actionHandlers: Array<(intent: ActionIntent) => void> = [];
+  private gamepadFrame = 0;
+  private playerCount = 1;
+
+  constructor(bindings: KeyBindings) {
+    this.bindings = bindings;
+  }
+
+  // Start listening; returns a function that stops again
+  attach(): () => void {
+    const handleKeyDown = (e: KeyboardEvent) => this.handleKey(e, true);
+    const handleKeyUp = (e: KeyboardEvent) => this.handleKey(e, false);
+    // Keys released while the window is unfocused never send keyup
+    const handleBlur = () => {
+      this.heldKeys.clear();
+      this.keyboard = emptyIntents();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    this.gamepadFrame = requestAnimationFrame(this.pollGamepads);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      cancelAnimationFrame(this.gamepadFrame);
+    };
+  }
+
+  setBindings(bindings: KeyBindings): void {
+    this.bindings = bindings;
+    this.heldKeys.clear();
+    this.keyboard = emptyIntents();
+  }
+
+  setPlayerCount(playerCount: number): void {
+    this.playerCount = playerCount;
+    this.heldKeys.clear();
+    this.keyboard = emptyIntents();
+  }
+
+  setTouchIntent(intent: HeldIntent, active: boolean): void {
+    this.touch[intent] = active;
+  }
+
+  // Subscribe to one-shot intents such as restart; returns an unsubscribe function
+  onAction(handler: (intent: ActionIntent) => void): () => void {
+    this.actionHandlers.push(handler);
+    return () => {
+      this.actionHandlers = this.actionHandlers.filter(existing => existing !== handler);
+    };
+  }
+
+  // What each player is asking for right now, from every input source combined
+  getPlayerIntents(): InputFrame[] {
+    return PLAYER_INTENTS.slice(0, this.playerCount).map(intents => ({
+      left: this.keyboard[intents.left] || this.touch[intents.left] || this.gamepad[intents.left],
+      right: this.keyboard[intents.right] || this.touch[intents.right] || this.gamepad[intents.right],
+      fire: this.keyboard[intents.fire] || this.touch[intents.fire] || this.gamepad[intents.fire],
+    }));
+  }
+
+  // Player two's keys win in co-op and do nothing in solo games
+  private intentForKey(code: string): GameIntent | undefined {
+    const bound = GAME_INTENTS.filter(intent => this.bindings[intent].includes(code));
+    if (this.playerCount > 1) {
+      return bound.find(isPlayerTwoIntent) ?? bound[0];
+    }
+    return bound.find(intent => !isPlayerTwoIntent(intent));
+  }
+
+  private handleKey(e: KeyboardEvent, pressed: boolean): void {
+    const intent = this.intentForKey(e.code);
+    if (!intent) {
+      return;
+    }
+
+    e.preventDefault();
+
+    if (isHeldIntent(intent)) {
+      if (pressed) {
+        this.heldKeys.add(e.code);
+      } else {
+        this.heldKeys.delete(e.code);
+      }
+      // Held while any key that maps to it is down
+      this.keyboard[intent] = this.bindings[intent].some(
+        code => this.heldKeys.has(code) && this.intentForKey(code) === intent
+      );
+    } else if (pressed && !e.repeat) {
+      this.emitAction(intent);
+    }
+  }
+
+  private emitAction(intent: ActionIntent): void {
+    for (const handler of this.actionHandlers) {
+      handler(intent);
+    }
+  }
+
+  private pollGamepads = (): void => {
+    const state = emptyIntents();
+    const pressedActions: Partial<Record<ActionIntent, boolean>> = {};
+    const pads = typeof navigator.getGamepads === 'function' ? navigator.getGamepads() : [];
+
+    // In solo every pad controls the one ship; in co-op each connected pad takes the next player
+    let connected = 0;
+    for (const pad of pads) {
+      if (!pad) continue;
+
+      const intents = PLAYER_INTENTS[Math.min(connected++, this.playerCount - 1)];
+      const stickX = pad.axes[0] ?? 0;
+      state[intents.left] ||= pad.buttons[GAMEPAD_LEFT_BUTTON]?.pressed || stickX < -GAMEPAD_STICK_DEADZONE;
+      state[intents.right] ||= pad.buttons[GAMEPAD_RIGHT_BUTTON]?.pressed || stickX > GAMEPAD_STICK_DEADZONE;
+      state[intents.fire] ||= GAMEPAD_FIRE_BUTTONS.some(button => pad.buttons[button]?.pressed);
+
+      for (const [intent, button] of Object.entries(GAMEPAD_ACTION_BUTTONS) as Array<[ActionIntent, number]>) {
+        pressedActions[intent] ||= pad.buttons[button]?.pressed ?? false;
+      }
+    }
+
+    this.gamepad = state;
+
+    // Actions fire once per press, not for as long as the button is held
+    for (const intent of Object.keys(GAMEPAD_ACTION_BUTTONS) as ActionIntent[]) {
+      if (pressedActions[intent] && !this.gamepadActions[intent]) {
+        this.emitAction(intent);
+      }
+    }
+    this.gamepadActions = pressedActions;
+
+    this.gamepadFrame = requestAnimationFrame(this.pollGamepads);
+  };
+}
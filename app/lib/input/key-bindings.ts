@@ -0,0 +1,116 @@
+// Keyboard bindings for game intents, saved in localStorage so players can remap them.
+// Keys are identified by KeyboardEvent.code, so bindings follow physical keys on any layout.
+
+// The second player's intents are only used in local co-op; their keys may overlap
+// player one's, in which case player two gets them during co-op games.
+export type PlayerOneIntent = 'left' | 'right' | 'fire';
+export type PlayerTwoIntent = 'p2Left' | 'p2Right' | 'p2Fire';
+export type HeldIntent = PlayerOneIntent | PlayerTwoIntent;
+export type ActionIntent = 'pause' | 'restart';
+export type GameIntent = HeldIntent | ActionIntent;
+
+export const GAME_INTENTS: GameIntent[] = ['left', 'right', 'fire', 'p2Left', 'p2Right', 'p2Fire', 'pause', 'restart'];
+
+// Held intents for each player, in InputFrame order
+export const PLAYER_INTENTS: Array<Record<PlayerOneIntent, HeldIntent>> = [
+  { left: 'left', right: 'right', fire: 'fire' },
+  { left: 'p2Left', right: 'p2Right', fire: 'p2Fire' },
+];
+
+export type KeyBindings = Record<GameIntent, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  left: ['KeyA', 'ArrowLeft'],
+  right: ['KeyD', 'ArrowRight'],
+  fire: ['Space'],
+  p2Left: ['ArrowLeft'],
+  p2Right: ['ArrowRight'],
+  p2Fire: ['Enter'],
+  pause: ['Escape', 'KeyP'],
+  restart: ['KeyR'],
+};
+
+export const INTENT_LABELS: Record<GameIntent, string> = {
+  left: 'Move left',
+  right: 'Move right',
+  fire: 'Shoot',
+  p2Left: 'P2 move left',
+  p2Right: 'P2 move right',
+  p2Fire: 'P2 shoot',
+  pause: 'Pause',
+  restart: 'Restart',
+};
+
+const STORAGE_KEY = 'spaceShooter.keyBindings';
+
+export function isHeldIntent(intent: GameIntent): intent is HeldIntent {
+  return intent !== 'pause' && intent !== 'restart';
+}
+
+export function isPlayerTwoIntent(intent: GameIntent): intent is PlayerTwoIntent {
+  return intent === 'p2Left' || intent === 'p2Right' || intent === 'p2Fire';
+}
+
+export function loadKeyBindings(): KeyBindings {
+  if (typeof window === 'undefined') {
+    return DEFAULT_KEY_BINDINGS;
+  }
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') {
+      return DEFAULT_KEY_BINDINGS;
+    }
+
+    // Fall back to the default for any intent that is missing or malformed
+    const bindings = { ...DEFAULT_KEY_BINDINGS };
+    for (const intent of GAME_INTENTS) {
+      const codes = saved[intent];
+      if (Array.isArray(codes) && codes.length > 0 && codes.every(code => typeof code === 'string')) {
+        bindings[intent] = codes;
+      }
+    }
+    return bindings;
+  } catch (error) {
+    console.warn('Ignoring unreadable key bindings:', error);
+    return DEFAULT_KEY_BINDINGS;
+  }
+}
+
+export function saveKeyBindings(bindings: KeyBindings): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.warn('Failed to save key bindings:', error);
+  }
+}
+
+// Bind a key to an intent as its only key, taking it away from any other intent. An intent
+// that would be left without a key gets the rebound intent's old keys instead, so the two swap.
+export function rebindKey(bindings: KeyBindings, intent: GameIntent, code: string): KeyBindings {
+  const previous = bindings[intent].filter(existing => existing !== code);
+  if (previous.length === 0) {
+    return bindings;
+  }
+
+  const updated = { ...bindings };
+  for (const other of GAME_INTENTS) {
+    const remaining = bindings[other].filter(existing => existing !== code);
+    updated[other] = remaining.length > 0 ? remaining : previous;
+  }
+  updated[intent] = [code];
+  return updated;
+}
+
+// "KeyA" -> "A", "ArrowLeft" -> "←", "Space" -> "Space"
+export function formatKey(code: string): string {
+  const arrows: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+  if (arrows[code]) return arrows[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code;
+}
+
+export function formatBinding(bindings: KeyBindings, intent: GameIntent): string {
+  return bindings[intent].map(formatKey).join('/');
+}
@@ -0,0 +1,56 @@
+// Which visual effects are drawn, saved in localStorage so low-end devices can turn them off.
+// None of these affect the simulation; they only change what is drawn on top of it.
+
+export type VisualEffect = 'starfield' | 'particles' | 'flashes' | 'screenShake';
+
+export type EffectSettings = Record<VisualEffect, boolean>;
+
+export const VISUAL_EFFECTS: VisualEffect[] = ['starfield', 'particles', 'flashes', 'screenShake'];
+
+export const DEFAULT_EFFECT_SETTINGS: EffectSettings = {
+  starfield: true,
+  particles: true,
+  flashes: true,
+  screenShake: true,
+};
+
+export const EFFECT_LABELS: Record<VisualEffect, string> = {
+  starfield: 'Scrolling starfield',
+  particles: 'Explosions',
+  flashes: 'Muzzle and hit flashes',
+  screenShake: 'Screen shake',
+};
+
+const STORAGE_KEY = 'spaceShooter.effects';
+
+export function loadEffectSettings(): EffectSettings {
+  if (typeof window === 'undefined') {
+    return DEFAULT_EFFECT_SETTINGS;
+  }
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') {
+      return DEFAULT_EFFECT_SETTINGS;
+    }
+
+    const settings = { ...DEFAULT_EFFECT_SETTINGS };
+    for (const effect of VISUAL_EFFECTS) {
+      if (typeof saved[effect] === 'boolean') {
+        settings[effect] = saved[effect];
+      }
+    }
+    return settings;
+  } catch (error) {
+    console.warn('Ignoring unreadable effect settings:', error);
+    return DEFAULT_EFFECT_SETTINGS;
+  }
+}
+
+export function saveEffectSettings(settings: EffectSettings): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save effect settings:', error);
+  }
+}
@@ -0,0 +1,88 @@
+// Short-lived particles for explosions and sparks. Dead particles are kept and reused,
+// and the total is capped so a busy screen can't grow the work without bound.
+
+interface Particle {
+  x: number;
+  y: number;
+  vx: number; // Pixels per second
+  vy: number;
+  size: number;
+  color: string;
+  age: number; // Milliseconds
+  lifetime: number;
+}
+
+const MAX_PARTICLES = 400;
+
+export interface BurstOptions {
+  count: number;
+  colors: string[];
+  speed: number; // Fastest particle, in pixels per second
+  lifetime: number; // Milliseconds
+  size: number;
+}
+
+export class ParticleSystem {
+  private particles: Particle[] = [];
+  private liveCount = 0;
+
+  // Throw particles out in every direction from a point
+  burst(x: number, y: number, options: BurstOptions): void {
+    for (let i = 0; i < options.count && this.liveCount < MAX_PARTICLES; i++) {
+      const angle = Math.random() * Math.PI * 2;
+      const speed = options.speed * (0.3 + Math.random() * 0.7);
+
+      if (this.liveCount === this.particles.length) {
+        this.particles.push({ x: 0, y: 0, vx: 0, vy: 0, size: 0, color: '', age: 0, lifetime: 0 });
+      }
+      const particle = this.particles[this.liveCount++];
+      particle.x = x;
+      particle.y = y;
+      particle.vx = Math.cos(angle) * speed;
+      particle.vy = Math.sin(angle) * speed;
+      particle.size = options.size * (0.5 + Math.random() * 0.5);
+      particle.color = options.colors[Math.floor(Math.random() * options.colors.length)];
+      particle.age = 0;
+      particle.lifetime = options.lifetime * (0.6 + Math.random() * 0.4);
+    }
+  }
+
+  update(deltaMs: number): void {
+    const seconds = deltaMs / 1000;
+    let i = 0;
+    while (i < this.liveCount) {
+      const particle = this.particles[i];
+      particle.age += deltaMs;
+
+      if (particle.age >= particle.lifetime) {
+        // Swap the dead particle past the live ones
+        this.liveCount--;
+        this.particles[i] = this.particles[this.liveCount];
+        this.particles[this.liveCount] = particle;
+        continue;
+      }
+
+      particle.x += particle.vx * seconds;
+      particle.y += particle.vy * seconds;
+      i++;
+    }
+  }
+
+  draw(ctx: CanvasRenderingContext2D): void {
+    for (let i = 0; i < this.liveCount; i++) {
+      const particle = this.particles[i];
+      ctx.globalAlpha = 1 - particle.age / particle.lifetime;
+      ctx.fillStyle = particle.color;
+      ctx.fillRect(particle.x - particle.size / 2, particle.y - particle.size / 2, particle.size, particle.size);
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  isEmpty(): boolean {
+    return this.liveCount === 0;
+  }
+
+  clear(): void {
+    this.liveCount = 0;
+  }
+}
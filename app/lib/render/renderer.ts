@@ -0,0 +1,506 @@
+// Draws the game. The renderer only ever reads simulation state and events; everything it
+// animates on its own (stars, particles, flashes, shake) runs on wall-clock time and lives here.
+
+import { GAME_WIDTH, GAME_HEIGHT, PLAYER_MAX_HEALTH, TICK_RATE } from '../game/constants';
+import { ENEMY_ARCHETYPES, EnemyType, getBossPhase } from '../game/enemies';
+import { PowerUpType } from '../game/power-ups';
+import { getComboMultiplier } from '../game/combo';
+import { Enemy, GameEvent, GameState, Rect } from '../game/types';
+import { EffectSettings } from './effect-settings';
+import { BurstOptions, ParticleSystem } from './particles';
+import { SpriteSheet } from './sprite-sheet';
+import { Starfield } from './starfield';
+import { setLogicalTransform } from './viewport';
+
+export interface Banner {
+  text: string;
+  untilTick: number;
+}
+
+export interface Ghost {
+  label: string;
+  ship: Rect & { health: number };
+  score: number;
+  finished: boolean;
+}
+
+export const POWER_UP_STYLES: Record<PowerUpType, { color: string; label: string }> = {
+  shield: { color: '#3399ff', label: 'S' },
+  rapid_fire: { color: '#ff9900', label: 'R' },
+  spread_shot: { color: '#cc66ff', label: 'W' },
+  extra_life: { color: '#33ff66', label: '+' },
+};
+
+type SpriteName =
+  | 'player'
+  | 'player_damaged'
+  | 'grunt'
+  | 'zigzag'
+  | 'tank'
+  | 'tank_damaged'
+  | 'kamikaze'
+  | 'kamikaze_diving'
+  | 'turret'
+  | 'boss_1'
+  | 'boss_2'
+  | 'boss_3';
+
+const SHIP_SPRITES = new SpriteSheet<SpriteName>('/sprites/ships.svg', {
+  player: { x: 0, y: 0, width: 64, height: 64 },
+  player_damaged: { x: 64, y: 0, width: 64, height: 64 },
+  grunt: { x: 128, y: 0, width: 64, height: 64 },
+  zigzag: { x: 192, y: 0, width: 64, height: 64 },
+  tank: { x: 256, y: 0, width: 64, height: 64 },
+  tank_damaged: { x: 320, y: 0, width: 64, height: 64 },
+  kamikaze: { x: 384, y: 0, width: 64, height: 64 },
+  kamikaze_diving: { x: 448, y: 0, width: 64, height: 64 },
+  turret: { x: 0, y: 64, width: 64, height: 64 },
+  boss_1: { x: 0, y: 128, width: 128, height: 80 },
+  boss_2: { x: 128, y: 128, width: 128, height: 80 },
+  boss_3: { x: 256, y: 128, width: 128, height: 80 },
+});
+
+const EXPLOSION_COLORS: Record<EnemyType, string[]> = {
+  grunt: ['#ff2222', '#ff8888', '#ffcc00'],
+  zigzag: ['#ff00ff', '#ff99ff', '#ffffff'],
+  tank: ['#8899aa', '#ffcc00', '#ff6600'],
+  kamikaze: ['#ff6600', '#ffaa00', '#ffff66'],
+  turret: ['#00cccc', '#66ffff', '#ffffff'],
+  boss: ['#ff0088', '#ffaa00', '#ffffff', '#aa00ff'],
+};
+
+const MAX_FRAME_MS = 100; // Effects don't jump ahead after a stall or a pause
+const MUZZLE_FLASH_MS = 60;
+const HIT_FLASH_MS = 80;
+const DAMAGE_FLASH_MS = 250;
+const GHOST_ALPHA = 0.35;
+const GHOST_COLOR = '#88ccff';
+// Per ship in co-op, for labels and the fallback shapes drawn when sprites are missing
+const PLAYER_COLORS = ['#00ff00', '#00ccff'];
+
+interface Shake {
+  strength: number; // Pixels at the start
+  duration: number;
+  startedAt: number;
+}
+
+function getSpriteName(enemy: Enemy): SpriteName {
+  switch (enemy.type) {
+    case 'tank':
+      return enemy.hitpoints > ENEMY_ARCHETYPES.tank.hitpoints / 2 ? 'tank' : 'tank_damaged';
+    case 'kamikaze':
+      return enemy.diving ? 'kamikaze_diving' : 'kamikaze';
+    case 'boss':
+      return `boss_${getBossPhase(enemy)}` as SpriteName;
+    default:
+      return enemy.type;
+  }
+}
+
+// Vector shapes, drawn until the sprite sheet has loaded or if it never does
+function drawEnemyShape(ctx: CanvasRenderingContext2D, enemy: Enemy) {
+  const { x, y, width, height } = enemy;
+  const centerX = x + width / 2;
+
+  ctx.beginPath();
+  switch (enemy.type) {
+    case 'zigzag':
+      // Diamond
+      ctx.fillStyle = '#ff00ff';
+      ctx.moveTo(centerX, y);
+      ctx.lineTo(x + width, y + height / 2);
+      ctx.lineTo(centerX, y + height);
+      ctx.lineTo(x, y + height / 2);
+      break;
+    case 'tank':
+      // Armoured hull, darkening as it takes damage
+      ctx.fillStyle = enemy.hitpoints > ENEMY_ARCHETYPES.tank.hitpoints / 2 ? '#8899aa' : '#556070';
+      ctx.rect(x, y, width, height * 0.7);
+      ctx.rect(centerX - 4, y + height * 0.7, 8, height * 0.3);
+      break;
+    case 'kamikaze':
+      // Narrow dart pointing down
+      ctx.fillStyle = enemy.diving ? '#ffaa00' : '#ff6600';
+      ctx.moveTo(x, y);
+      ctx.lineTo(centerX, y + height * 0.3);
+      ctx.lineTo(x + width, y);
+      ctx.lineTo(centerX, y + height);
+      break;
+    case 'turret':
+      // Round body with three barrels
+      ctx.fillStyle = '#00cccc';
+      ctx.arc(centerX, y + height / 2, width / 2, 0, Math.PI * 2);
+      ctx.rect(centerX - 2, y + height / 2, 4, height / 2 + 6);
+      ctx.rect(x + 4, y + height - 6, 4, 10);
+      ctx.rect(x + width - 8, y + height - 6, 4, 10);
+      break;
+    case 'boss':
+      // Wide hull with swept wings; hotter colours in later phases
+      ctx.fillStyle = ['#aa00ff', '#ff0088', '#ff3300'][getBossPhase(enemy) - 1];
+      ctx.moveTo(x, y);
+      ctx.lineTo(x + width, y);
+      ctx.lineTo(x + width * 0.8, y + height * 0.6);
+      ctx.lineTo(centerX + 10, y + height);
+      ctx.lineTo(centerX - 10, y + height);
+      ctx.lineTo(x + width * 0.2, y + height * 0.6);
+      break;
+    default:
+      // Triangle
+      ctx.fillStyle = '#ff0000';
+      ctx.moveTo(centerX, y);
+      ctx.lineTo(x, y + height);
+      ctx.lineTo(x + width, y + height);
+  }
+  ctx.closePath();
+  ctx.fill();
+}
+
+function drawEnemy(ctx: CanvasRenderingContext2D, enemy: Enemy) {
+  if (!SHIP_SPRITES.draw(ctx, getSpriteName(enemy), enemy.x, enemy.y, enemy.width, enemy.height)) {
+    drawEnemyShape(ctx, enemy);
+  }
+}
+
+function drawPlayer(ctx: CanvasRenderingContext2D, player: Rect & { health: number }, index: number) {
+  const damaged = player.health < PLAYER_MAX_HEALTH;
+  if (SHIP_SPRITES.draw(ctx, damaged ? 'player_damaged' : 'player', player.x, player.y, player.width, player.height)) {
+    return;
+  }
+
+  // Square, scorched once damaged
+  ctx.fillStyle = damaged ? '#ff9900' : PLAYER_COLORS[index];
+  ctx.fillRect(player.x, player.y, player.width, player.height);
+  if (damaged) {
+    ctx.strokeStyle = '#552200';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(player.x + 6, player.y + 4);
+    ctx.lineTo(player.x + 14, player.y + 16);
+    ctx.lineTo(player.x + 10, player.y + 26);
+    ctx.moveTo(player.x + 24, player.y + 8);
+    ctx.lineTo(player.x + 18, player.y + 20);
+    ctx.stroke();
+  }
+}
+
+function centerOf(rect: Rect): { x: number; y: number } {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+export class GameRenderer {
+  private settings: EffectSettings;
+  private starfield = new Starfield(GAME_WIDTH, GAME_HEIGHT);
+  private particles = new ParticleSystem();
+  private lastFrameAt: number | null = null;
+  private shake: Shake | null = null;
+  private muzzleFlashes: number[] = []; // Per ship: flash end time
+  private damageFlashUntil = 0;
+  private hitFlashes = new Map<number, number>(); // Enemy id -> flash end time
+  // Where each enemy was before the latest tick, so destroyed ones still have a position
+  private lastSeenEnemies = new Map<number, Rect & { type: EnemyType }>();
+
+  constructor(settings: EffectSettings) {
+    this.settings = settings;
+  }
+
+  loadSprites(): Promise<boolean> {
+    return SHIP_SPRITES.load();
+  }
+
+  setSettings(settings: EffectSettings): void {
+    this.settings = settings;
+    if (!settings.particles) {
+      this.particles.clear();
+    }
+  }
+
+  // Forget the effects of the previous run
+  reset(): void {
+    this.particles.clear();
+    this.shake = null;
+    this.muzzleFlashes = [];
+    this.damageFlashUntil = 0;
+    this.hitFlashes.clear();
+    this.lastSeenEnemies.clear();
+  }
+
+  // Whether anything is still moving once the simulation has stopped
+  hasActiveEffects(now: number): boolean {
+    return (this.settings.particles && !this.particles.isEmpty()) || this.getShakeStrength(now) > 0;
+  }
+
+  // Call before each simulation step
+  trackEnemies(state: GameState): void {
+    this.lastSeenEnemies.clear();
+    for (const enemy of state.enemies) {
+      this.lastSeenEnemies.set(enemy.id, {
+        x: enemy.x,
+        y: enemy.y,
+        width: enemy.width,
+        height: enemy.height,
+        type: enemy.type,
+      });
+    }
+  }
+
+  // Start the effects for what happened during a simulation step
+  handleEvents(events: GameEvent[], state: GameState, now: number): void {
+    for (const event of events) {
+      switch (event.type) {
+        case 'shot_fired':
+          this.muzzleFlashes[event.player] = now + MUZZLE_FLASH_MS;
+          break;
+        case 'enemy_hit': {
+          this.hitFlashes.set(event.enemyId, now + HIT_FLASH_MS);
+          const enemy = this.lastSeenEnemies.get(event.enemyId);
+          if (enemy) {
+            this.burst(enemy.x + enemy.width / 2, enemy.y + enemy.height, {
+              count: 6, colors: ['#ffffff', '#ffff66'], speed: 120, lifetime: 200, size: 2,
+            });
+          }
+          break;
+        }
+        case 'enemy_killed':
+        case 'boss_defeated': {
+          const enemy = this.lastSeenEnemies.get(event.enemyId);
+          if (!enemy) break;
+          const { x, y } = centerOf(enemy);
+          const isBoss = event.type === 'boss_defeated';
+          this.burst(x, y, {
+            count: isBoss ? 120 : 24,
+            colors: EXPLOSION_COLORS[enemy.type],
+            speed: isBoss ? 260 : 160,
+            lifetime: isBoss ? 1200 : 500,
+            size: isBoss ? 5 : 3,
+          });
+          if (isBoss) {
+            this.startShake(14, 700, now);
+          }
+          break;
+        }
+        case 'player_hit':
+          this.damageFlashUntil = now + DAMAGE_FLASH_MS;
+          this.startShake(8, 300, now);
+          break;
+        case 'player_died':
+          for (const player of state.players) {
+            const { x, y } = centerOf(player);
+            this.burst(x, y, { count: 60, colors: ['#00ff00', '#ffcc00', '#ffffff'], speed: 200, lifetime: 900, size: 4 });
+          }
+          this.startShake(12, 500, now);
+          break;
+      }
+    }
+  }
+
+  // A ghost is another run of the same seed (the personal best, or a versus opponent) drawn
+  // faintly alongside this one
+  render(
+    ctx: CanvasRenderingContext2D,
+    state: GameState,
+    banner: Banner | null,
+    now: number,
+    ghost: Ghost | null = null
+  ): void {
+    const deltaMs = this.lastFrameAt === null ? 0 : Math.min(now - this.lastFrameAt, MAX_FRAME_MS);
+    this.lastFrameAt = now;
+
+    setLogicalTransform(ctx);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+
+    if (this.settings.starfield) {
+      this.starfield.update(deltaMs);
+      this.starfield.draw(ctx);
+    }
+
+    // The playfield shakes; the HUD drawn afterwards stays put
+    ctx.save();
+    const offset = this.getShakeOffset(now);
+    ctx.translate(offset.x, offset.y);
+    if (ghost && !ghost.finished) {
+      ctx.globalAlpha = GHOST_ALPHA;
+      drawPlayer(ctx, ghost.ship, 0);
+      ctx.globalAlpha = 1;
+    }
+    this.drawWorld(ctx, state, now);
+    if (this.settings.particles) {
+      this.particles.update(deltaMs);
+      this.particles.draw(ctx);
+    }
+    ctx.restore();
+
+    if (this.settings.flashes && now < this.damageFlashUntil) {
+      ctx.fillStyle = `rgba(255, 0, 0, ${0.3 * (this.damageFlashUntil - now) / DAMAGE_FLASH_MS})`;
+      ctx.fillRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+    }
+
+    this.drawHud(ctx, state, banner);
+    if (ghost) {
+      ctx.fillStyle = GHOST_COLOR;
+      ctx.font = '14px sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillText(`${ghost.label}: ${ghost.score}${ghost.finished ? ' (final)' : ''}`, 10, 20);
+    }
+  }
+
+  private burst(x: number, y: number, options: BurstOptions): void {
+    if (this.settings.particles) {
+      this.particles.burst(x, y, options);
+    }
+  }
+
+  private startShake(strength: number, duration: number, now: number): void {
+    // A weaker shake doesn't cut a stronger one short
+    if (this.shake && this.getShakeStrength(now) > strength) {
+      return;
+    }
+    this.shake = { strength, duration, startedAt: now };
+  }
+
+  private getShakeStrength(now: number): number {
+    if (!this.shake) {
+      return 0;
+    }
+    const remaining = 1 - (now - this.shake.startedAt) / this.shake.duration;
+    return remaining > 0 ? this.shake.strength * remaining : 0;
+  }
+
+  private getShakeOffset(now: number): { x: number; y: number } {
+    const strength = this.settings.screenShake ? this.getShakeStrength(now) : 0;
+    if (strength === 0) {
+      return { x: 0, y: 0 };
+    }
+    return { x: (Math.random() * 2 - 1) * strength, y: (Math.random() * 2 - 1) * strength };
+  }
+
+  private drawWorld(ctx: CanvasRenderingContext2D, state: GameState, now: number): void {
+    // Players: blinking while invulnerable, ringed while shielded, labelled in co-op
+    const coop = state.players.length > 1;
+    state.players.forEach((player, index) => {
+      const invulnerable = state.tick < player.invulnerableUntilTick;
+      if (!state.isOver && (!invulnerable || Math.floor(state.tick / 6) % 2 === 0)) {
+        drawPlayer(ctx, player, index);
+      }
+      if (player.powerUps.shield !== undefined) {
+        ctx.strokeStyle = POWER_UP_STYLES.shield.color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(player.x + player.width / 2, player.y + player.height / 2, player.width, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+      if (coop && !state.isOver) {
+        ctx.fillStyle = PLAYER_COLORS[index];
+        ctx.font = 'bold 12px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.fillText(`P${index + 1}`, player.x + player.width / 2, player.y + player.height + 14);
+      }
+
+      if (this.settings.flashes && now < (this.muzzleFlashes[index] ?? 0) && !state.isOver) {
+        const { x } = centerOf(player);
+        const glow = ctx.createRadialGradient(x, player.y, 0, x, player.y, 14);
+        glow.addColorStop(0, 'rgba(255, 255, 200, 0.9)');
+        glow.addColorStop(1, 'rgba(255, 200, 0, 0)');
+        ctx.fillStyle = glow;
+        ctx.fillRect(x - 14, player.y - 14, 28, 28);
+      }
+    });
+
+    for (const enemy of state.enemies) {
+      drawEnemy(ctx, enemy);
+
+      // Flash white for a moment after taking a hit
+      const flashUntil = this.hitFlashes.get(enemy.id);
+      if (flashUntil !== undefined && now < flashUntil && this.settings.flashes) {
+        ctx.globalCompositeOperation = 'lighter';
+        drawEnemy(ctx, enemy);
+        ctx.globalCompositeOperation = 'source-over';
+      }
+
+      // Health bar for ships that take more than one hit; the boss has its own at the top
+      const maxHitpoints = ENEMY_ARCHETYPES[enemy.type].hitpoints;
+      if (maxHitpoints > 1 && enemy.type !== 'boss') {
+        ctx.fillStyle = '#333';
+        ctx.fillRect(enemy.x, enemy.y - 6, enemy.width, 3);
+        ctx.fillStyle = '#00ff00';
+        ctx.fillRect(enemy.x, enemy.y - 6, enemy.width * (enemy.hitpoints / maxHitpoints), 3);
+      }
+    }
+    for (const [enemyId, flashUntil] of this.hitFlashes) {
+      if (now >= flashUntil) {
+        this.hitFlashes.delete(enemyId);
+      }
+    }
+
+    // Bullets
+    ctx.fillStyle = '#ffff00';
+    for (const bullet of state.playerBullets) {
+      ctx.fillRect(bullet.x, bullet.y, bullet.width, bullet.height);
+    }
+    ctx.fillStyle = '#ff5555';
+    for (const bullet of state.enemyBullets) {
+      ctx.fillRect(bullet.x, bullet.y, bullet.width, bullet.height);
+    }
+
+    // Falling power-ups
+    ctx.font = 'bold 14px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (const drop of state.drops) {
+      const style = POWER_UP_STYLES[drop.type];
+      const { x, y } = centerOf(drop);
+      ctx.fillStyle = style.color;
+      ctx.beginPath();
+      ctx.arc(x, y, drop.width / 2, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#000';
+      ctx.fillText(style.label, x, y);
+    }
+    ctx.textBaseline = 'alphabetic';
+  }
+
+  private drawHud(ctx: CanvasRenderingContext2D, state: GameState, banner: Banner | null): void {
+    // Boss health bar across the top of the screen
+    const boss = state.enemies.find(enemy => enemy.type === 'boss');
+    if (boss) {
+      const barWidth = GAME_WIDTH - 200;
+      ctx.fillStyle = '#333';
+      ctx.fillRect(100, 10, barWidth, 8);
+      ctx.fillStyle = '#ff0088';
+      ctx.fillRect(100, 10, barWidth * (boss.hitpoints / ENEMY_ARCHETYPES.boss.hitpoints), 8);
+    }
+
+    // Remaining time of active power-ups; player two's are listed in the right corner
+    ctx.font = '14px sans-serif';
+    state.players.forEach((player, playerIndex) => {
+      ctx.textAlign = playerIndex === 0 ? 'left' : 'right';
+      const x = playerIndex === 0 ? 10 : GAME_WIDTH - 10;
+      Object.entries(player.powerUps).forEach(([type, expiresAt], index) => {
+        const style = POWER_UP_STYLES[type as PowerUpType];
+        ctx.fillStyle = style.color;
+        ctx.fillText(
+          `${type.replace('_', ' ')} ${Math.ceil((expiresAt! - state.tick) / TICK_RATE)}s`,
+          x,
+          GAME_HEIGHT - 10 - index * 18
+        );
+      });
+    });
+
+    // Combo multiplier
+    const multiplier = getComboMultiplier(state.combo, state.tick);
+    if (multiplier > 1) {
+      ctx.fillStyle = '#ffcc00';
+      ctx.font = 'bold 24px sans-serif';
+      ctx.textAlign = 'right';
+      ctx.fillText(`x${multiplier}`, GAME_WIDTH - 10, 40);
+    }
+
+    // Wave announcements
+    if (banner && state.tick < banner.untilTick) {
+      ctx.fillStyle = '#ffffff';
+      ctx.font = 'bold 32px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(banner.text, GAME_WIDTH / 2, GAME_HEIGHT / 3);
+    }
+  }
+}
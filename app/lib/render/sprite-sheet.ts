@@ -0,0 +1,58 @@
+// Sprite sheets: one image holding many frames, each drawn by its source rectangle.
+
+export interface SpriteFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export class SpriteSheet<Frame extends string> {
+  private url: string;
+  private frames: Record<Frame, SpriteFrame>;
+  private image: HTMLImageElement | null = null;
+  private loading: Promise<boolean> | null = null;
+  private loaded = false;
+
+  constructor(url: string, frames: Record<Frame, SpriteFrame>) {
+    this.url = url;
+    this.frames = frames;
+  }
+
+  // Resolves once the image can be drawn; a sheet that fails to load stays unusable
+  load(): Promise<boolean> {
+    if (this.loading) {
+      return this.loading;
+    }
+
+    const image = new Image();
+    this.image = image;
+    this.loading = new Promise(resolve => {
+      image.onload = () => {
+        this.loaded = true;
+        resolve(true);
+      };
+      image.onerror = () => {
+        console.warn(`Failed to load sprite sheet ${this.url}`);
+        resolve(false);
+      };
+      image.src = this.url;
+    });
+    return this.loading;
+  }
+
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  // Draw a frame stretched over a rectangle; returns false if the sheet isn't ready
+  draw(ctx: CanvasRenderingContext2D, frame: Frame, x: number, y: number, width: number, height: number): boolean {
+    if (!this.loaded || !this.image) {
+      return false;
+    }
+
+    const source = this.frames[frame];
+    ctx.drawImage(this.image, source.x, source.y, source.width, source.height, x, y, width, height);
+    return true;
+  }
+}
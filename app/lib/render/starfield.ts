@@ -0,0 +1,63 @@
+// Scrolling background of stars in layers, nearer layers moving faster for a sense of depth.
+// Purely cosmetic, so it uses Math.random and wall-clock time freely.
+
+interface Star {
+  x: number;
+  y: number;
+}
+
+interface StarLayer {
+  stars: Star[];
+  speed: number; // Pixels per second
+  size: number;
+  color: string;
+}
+
+const LAYERS = [
+  { count: 60, speed: 15, size: 1, color: '#555577' },
+  { count: 35, speed: 40, size: 1.5, color: '#9999bb' },
+  { count: 15, speed: 90, size: 2, color: '#ffffff' },
+];
+
+export class Starfield {
+  private width: number;
+  private height: number;
+  private layers: StarLayer[];
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.layers = LAYERS.map(layer => ({
+      speed: layer.speed,
+      size: layer.size,
+      color: layer.color,
+      stars: Array.from({ length: layer.count }, () => ({
+        x: Math.random() * width,
+        y: Math.random() * height,
+      })),
+    }));
+  }
+
+  update(deltaMs: number): void {
+    for (const layer of this.layers) {
+      const distance = layer.speed * deltaMs / 1000;
+      for (const star of layer.stars) {
+        star.y += distance;
+        // Wrap to the top at a new column so the pattern doesn't visibly repeat
+        if (star.y > this.height) {
+          star.y -= this.height;
+          star.x = Math.random() * this.width;
+        }
+      }
+    }
+  }
+
+  draw(ctx: CanvasRenderingContext2D): void {
+    for (const layer of this.layers) {
+      ctx.fillStyle = layer.color;
+      for (const star of layer.stars) {
+        ctx.fillRect(star.x, star.y, layer.size, layer.size);
+      }
+    }
+  }
+}
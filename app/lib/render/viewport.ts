@@ -0,0 +1,39 @@
+// Fitting the fixed-size game onto any screen. The game always draws in logical
+// GAME_WIDTH x GAME_HEIGHT coordinates; only the canvas backing store and CSS size change.
+
+import { GAME_WIDTH, GAME_HEIGHT } from '../game/constants';
+
+export interface CanvasFit {
+  cssWidth: number;
+  cssHeight: number;
+  pixelRatio: number;
+}
+
+// The largest size with the game's aspect ratio that fits the space, leaving bars on the sides
+// or top and bottom (letterboxing) rather than stretching
+export function fitCanvas(availableWidth: number, availableHeight: number, pixelRatio: number): CanvasFit {
+  const scale = Math.max(0, Math.min(availableWidth / GAME_WIDTH, availableHeight / GAME_HEIGHT));
+  return {
+    cssWidth: Math.floor(GAME_WIDTH * scale),
+    cssHeight: Math.floor(GAME_HEIGHT * scale),
+    pixelRatio: pixelRatio > 0 ? pixelRatio : 1,
+  };
+}
+
+// Size the backing store in device pixels so it stays sharp on high-density screens.
+// Resizing clears the canvas, so callers redraw afterwards.
+export function applyCanvasFit(canvas: HTMLCanvasElement, fit: CanvasFit): void {
+  const width = Math.max(1, Math.round(fit.cssWidth * fit.pixelRatio));
+  const height = Math.max(1, Math.round(fit.cssHeight * fit.pixelRatio));
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  canvas.style.width = `${fit.cssWidth}px`;
+  canvas.style.height = `${fit.cssHeight}px`;
+}
+
+// Map logical game coordinates onto whatever size the backing store currently has
+export function setLogicalTransform(ctx: CanvasRenderingContext2D): void {
+  ctx.setTransform(ctx.canvas.width / GAME_WIDTH, 0, 0, ctx.canvas.height / GAME_HEIGHT, 0, 0);
+}
@@ -0,0 +1,87 @@
+// Replays kept in the browser: the personal best for each mode, saved in localStorage,
+// and moving replays in and out as JSON files. Personal bests are solo runs only.
+
+import { Difficulty, DIFFICULTY_LEVELS } from './game/difficulty';
+import { Replay, parseReplay, serializeReplay } from './game/replay';
+
+export type PersonalBests = Partial<Record<Difficulty, Replay>>;
+
+const PERSONAL_BESTS_KEY = 'spaceShooter.personalBests';
+const RACE_GHOST_KEY = 'spaceShooter.raceGhost';
+
+export function loadPersonalBests(): PersonalBests {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(PERSONAL_BESTS_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') {
+      return {};
+    }
+
+    // Drop anything that no longer plays back, such as replays from an older game version
+    const bests: PersonalBests = {};
+    for (const difficulty of DIFFICULTY_LEVELS) {
+      const result = saved[difficulty] ? parseReplay(JSON.stringify(saved[difficulty])) : null;
+      if (result?.replay && result.replay.difficulty === difficulty && result.replay.players === 1) {
+        bests[difficulty] = result.replay;
+      }
+    }
+    return bests;
+  } catch (error) {
+    console.warn('Ignoring unreadable personal bests:', error);
+    return {};
+  }
+}
+
+// Keep the replay if it beats the stored best for its mode; returns the updated bests,
+// or null if it didn't
+export function recordPersonalBest(bests: PersonalBests, replay: Replay): PersonalBests | null {
+  const current = bests[replay.difficulty];
+  if (replay.players > 1 || (current && current.score >= replay.score)) {
+    return null;
+  }
+
+  const updated = { ...bests, [replay.difficulty]: replay };
+  try {
+    window.localStorage.setItem(PERSONAL_BESTS_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.warn('Failed to save personal best:', error);
+  }
+  return updated;
+}
+
+export function loadRaceGhost(): boolean {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+  return window.localStorage.getItem(RACE_GHOST_KEY) === 'true';
+}
+
+export function saveRaceGhost(enabled: boolean): void {
+  try {
+    window.localStorage.setItem(RACE_GHOST_KEY, String(enabled));
+  } catch (error) {
+    console.warn('Failed to save ghost setting:', error);
+  }
+}
+
+export function downloadReplay(replay: Replay): void {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `space-shooter-${replay.difficulty}-${replay.score}-${new Date(replay.recordedAt).toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function readReplayFile(file: File): Promise<{ valid: boolean; replay?: Replay; error?: string }> {
+  try {
+    return parseReplay(await file.text());
+  } catch (error) {
+    console.error('Error reading replay file:', error);
+    return { valid: false, error: 'Failed to read replay file' };
+  }
+}
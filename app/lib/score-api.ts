@@ -1,23 +1,43 @@
 // Client-side API helpers for score submission
 
+import type { Achievement, AchievementStatus } from './achievements';
+import type { DailyLeaderboardEntry, DailyRun } from './daily-challenge';
+import type { VersusOutcome } from './game-session';
+import { Difficulty } from './game/difficulty';
+import { RunRecording } from './game/input-log';
+import { SpawnToken } from './game/spawns';
+
 interface ScoreSubmissionResponse {
   success: boolean;
   transactionHash?: string;
+  alreadySubmitted?: boolean;
   message?: string;
   error?: string;
 }
 
-interface QueuedTransaction {
-  id: string;
-  playerAddress: string;
-  scoreAmount: number;
-  transactionAmount: number;
-  attempts: number;
-  maxAttempts: number;
-  nextRetryAt: number;
-  onSuccess?: (result: ScoreSubmissionResponse) => void;
-  onFailure?: (error: string) => void;
-  onRetry?: (attempt: number) => void;
+// In-game events the client reports to the server as they happen
+export type GameActionType =
+  | 'shot_fired'
+  | 'enemy_killed'
+  | 'boss_defeated'
+  | 'power_up_collected'
+  | 'power_up_expired'
+  | 'player_hit'
+  | 'pause'
+  | 'resume';
+
+export interface GameSessionStats {
+  score: number;
+  enemiesKilled: number;
+  shotsFired: number;
+  accuracy: number;
+  sessionDuration: number;
+  difficulty: Difficulty;
+  daily: DailyRun | null;
+  players: number;
+  playerScores: number[]; // Each ship's own kills; the team score is credited to the host
+  versus: string | null; // Match id of a head-to-head run
+  bossesDefeated: number;
 }
 
 interface PlayerDataResponse {
@@ -28,6 +48,23 @@ interface PlayerDataResponse {
   error?: string;
 }
 
+export interface DailyLeaderboardResponse {
+  success: boolean;
+  date: string;
+  entries: DailyLeaderboardEntry[];
+  totalPlayers: number;
+  attempted: boolean; // Whether the player has used today's ranked attempt
+  playerEntry: DailyLeaderboardEntry | null;
+  error?: string;
+}
+
+export interface AchievementsResponse {
+  success: boolean;
+  playerAddress: string;
+  achievements: AchievementStatus[];
+  error?: string;
+}
+
 interface PlayerDataPerGameResponse {
   success: boolean;
   playerAddress: string;
@@ -87,6 +124,35 @@ export async function getSessionToken(playerAddress: string, signature: string,
   }
 }
 
+// Swap a session token that is about to expire for a fresh one while a game session is open
+export async function refreshSessionToken(
+  playerAddress: string,
+  sessionToken: string
+): Promise<{ sessionToken: string; expiresAt: number } | null> {
+  try {
+    const response = await fetch('/api/refresh-session-token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        playerAddress,
+        sessionToken,
+      }),
+    });
+
+    const data = await response.json();
+    if (data.success) {
+      return { sessionToken: data.sessionToken, expiresAt: data.expiresAt };
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error refreshing session token:', error);
+    return null;
+  }
+}
+
 // Submit game session results to the contract
 export async function submitGameSession(
   playerAddress: string,
@@ -120,8 +186,22 @@ export async function submitGameSession(
 // Start a new game session
 export async function startGameSession(
   playerAddress: string,
-  sessionToken: string
-): Promise<{ success: boolean; gameSessionId?: string; error?: string }> {
+  sessionToken: string,
+  difficulty: Difficulty,
+  daily: boolean,
+  players: number,
+  matchToken?: string
+): Promise<{
+  success: boolean;
+  gameSessionId?: string;
+  difficulty?: Difficulty;
+  daily?: DailyRun | null;
+  players?: number;
+  versus?: string | null;
+  spawns?: SpawnToken[];
+  spawnHorizon?: number;
+  error?: string;
+}> {
   try {
     const response = await fetch('/api/game-session/start', {
       method: 'POST',
@@ -131,6 +211,10 @@ export async function startGameSession(
       body: JSON.stringify({
         playerAddress,
         sessionToken,
+        difficulty,
+        daily,
+        players,
+        matchToken,
       }),
     });
 
@@ -145,13 +229,50 @@ export async function startGameSession(
   }
 }
 
-// Submit a game action for validation
-export async function submitGameAction(
+// Fetch the server-decided enemy spawns from a tick onwards
+export async function getGameSpawns(
   playerAddress: string,
   gameSessionId: string,
   sessionToken: string,
-  action: { type: 'shot_fired' | 'enemy_killed'; data?: Record<string, unknown> }
-): Promise<{ success: boolean; currentScore?: number; error?: string }> {
+  fromTick: number
+): Promise<{ success: boolean; spawns?: SpawnToken[]; spawnHorizon?: number; error?: string }> {
+  try {
+    const response = await fetch('/api/game-session/spawns', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        playerAddress,
+        gameSessionId,
+        sessionToken,
+        fromTick,
+      }),
+    });
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error('Error getting game spawns:', error);
+    return {
+      success: false,
+      error: 'Failed to get game spawns',
+    };
+  }
+}
+
+export interface GameActionResult {
+  valid: boolean;
+  error?: string;
+}
+
+// Submit game actions for validation, in the order they happened
+export async function submitGameActions(
+  playerAddress: string,
+  gameSessionId: string,
+  sessionToken: string,
+  actions: Array<{ type: GameActionType; data?: Record<string, unknown> }>
+): Promise<{ success: boolean; currentScore?: number; results?: GameActionResult[]; error?: string }> {
   try {
     const response = await fetch('/api/game-session/action', {
       method: 'POST',
@@ -162,27 +283,37 @@ export async function submitGameAction(
         playerAddress,
         gameSessionId,
         sessionToken,
-        action,
+        actions,
       }),
     });
 
     const data = await response.json();
     return data;
   } catch (error) {
-    console.error('Error submitting game action:', error);
+    console.error('Error submitting game actions:', error);
     return {
       success: false,
-      error: 'Failed to submit game action',
+      error: 'Failed to submit game actions',
     };
   }
 }
 
-// End a game session
+// End a game session, uploading the run recording for server-side replay
 export async function endGameSession(
   playerAddress: string,
   gameSessionId: string,
-  sessionToken: string
-): Promise<{ success: boolean; finalScore?: number; stats?: unknown; error?: string }> {
+  sessionToken: string,
+  recording: RunRecording
+): Promise<{
+  success: boolean;
+  finalScore?: number;
+  spawnSeed?: number; // Withheld for daily runs until the day is over, and for versus runs until the match is decided
+  stats?: GameSessionStats;
+  dailyRank?: number | null;
+  versus?: VersusOutcome | null;
+  achievements?: Achievement[]; // Unlocked by this run
+  error?: string;
+}> {
   try {
     const response = await fetch('/api/game-session/end', {
       method: 'POST',
@@ -193,6 +324,7 @@ export async function endGameSession(
         playerAddress,
         gameSessionId,
         sessionToken,
+        recording,
       }),
     });
 
@@ -207,6 +339,62 @@ export async function endGameSession(
   }
 }
 
+// Get a ticket for joining the versus matchmaking queue on the relay
+export async function requestVersusTicket(
+  playerAddress: string,
+  sessionToken: string,
+  difficulty: Difficulty
+): Promise<{ success: boolean; ticket?: string; error?: string }> {
+  try {
+    const response = await fetch('/api/versus/ticket', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        playerAddress,
+        sessionToken,
+        difficulty,
+      }),
+    });
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error('Error requesting versus ticket:', error);
+    return {
+      success: false,
+      error: 'Failed to request versus ticket',
+    };
+  }
+}
+
+// Get how a versus match stands, including the winner once the server has decided it
+export async function getVersusResult(matchId: string): Promise<VersusOutcome | null> {
+  try {
+    const response = await fetch(`/api/versus/result?matchId=${encodeURIComponent(matchId)}`);
+    const data = await response.json();
+    return data.success ? data : null;
+  } catch (error) {
+    console.error('Error getting versus result:', error);
+    return null;
+  }
+}
+
+// Check whether a submitted transaction has been mined
+export async function getTransactionStatus(
+  transactionHash: string
+): Promise<'pending' | 'confirmed' | 'failed' | null> {
+  try {
+    const response = await fetch(`/api/get-transaction-status?hash=${encodeURIComponent(transactionHash)}`);
+    const data = await response.json();
+    return data.success ? data.status : null;
+  } catch (error) {
+    console.error('Error getting transaction status:', error);
+    return null;
+  }
+}
+
 // Get player's total data across all games
 export async function getPlayerTotalData(playerAddress: string): Promise<PlayerDataResponse | null> {
   try {
@@ -219,6 +407,37 @@ export async function getPlayerTotalData(playerAddress: string): Promise<PlayerD
   }
 }
 
+// Get a day's challenge leaderboard (today's by default) and the player's standing on it
+export async function getDailyLeaderboard(
+  playerAddress?: string,
+  date?: string
+): Promise<DailyLeaderboardResponse | null> {
+  try {
+    const params = new URLSearchParams();
+    if (playerAddress) params.set('address', playerAddress);
+    if (date) params.set('date', date);
+
+    const response = await fetch(`/api/get-daily-leaderboard?${params.toString()}`);
+    const data = await response.json();
+    return data.success ? data : null;
+  } catch (error) {
+    console.error('Error getting daily leaderboard:', error);
+    return null;
+  }
+}
+
+// Every achievement, with the ones the player has unlocked
+export async function getAchievements(playerAddress: string): Promise<AchievementsResponse | null> {
+  try {
+    const response = await fetch(`/api/get-achievements?address=${encodeURIComponent(playerAddress)}`);
+    const data = await response.json();
+    return data.success ? data : null;
+  } catch (error) {
+    console.error('Error getting achievements:', error);
+    return null;
+  }
+}
+
 // Get player's data for a specific game
 export async function getPlayerGameData(
   playerAddress: string,
@@ -235,374 +454,3 @@ export async function getPlayerGameData(
     return null;
   }
 }
-
-// Helper to batch score submissions (avoid spamming the blockchain)
-export class ScoreSubmissionManager {
-  private playerAddress: string;
-  private pendingScore: number = 0;
-  private pendingTransactions: number = 0;
-  private submitTimeout: NodeJS.Timeout | null = null;
-  private readonly submitDelay = 5000; // 5 seconds delay before submission
-
-  constructor(playerAddress: string) {
-    this.playerAddress = playerAddress;
-  }
-
-  // Add score points (will be batched and submitted after delay)
-  addScore(points: number) {
-    this.pendingScore += points;
-    this.scheduleSubmission();
-  }
-
-  // Add transaction count (will be batched and submitted after delay)
-  addTransaction(count: number = 1) {
-    this.pendingTransactions += count;
-    this.scheduleSubmission();
-  }
-
-  // Submit immediately (bypasses batching)
-  async submitImmediately(): Promise<ScoreSubmissionResponse> {
-    if (this.submitTimeout) {
-      clearTimeout(this.submitTimeout);
-      this.submitTimeout = null;
-    }
-
-    const score = this.pendingScore;
-    const transactions = this.pendingTransactions;
-
-    // Reset pending amounts
-    this.pendingScore = 0;
-    this.pendingTransactions = 0;
-
-    if (score === 0 && transactions === 0) {
-      return { success: true, message: 'No pending data to submit' };
-    }
-
-    return submitPlayerScore(this.playerAddress, score, transactions);
-  }
-
-  // Schedule a delayed submission (batches multiple updates)
-  private scheduleSubmission() {
-    if (this.submitTimeout) {
-      clearTimeout(this.submitTimeout);
-    }
-
-    this.submitTimeout = setTimeout(async () => {
-      if (this.pendingScore > 0 || this.pendingTransactions > 0) {
-        const result = await this.submitImmediately();
-        if (!result.success) {
-          console.error('Failed to submit score:', result.error);
-        } else {
-          console.log('Score submitted successfully:', result.transactionHash);
-        }
-      }
-    }, this.submitDelay);
-  }
-
-  // Get current pending amounts
-  getPendingData() {
-    return {
-      score: this.pendingScore,
-      transactions: this.pendingTransactions,
-    };
-  }
-
-  // Clean up timeouts
-  destroy() {
-    if (this.submitTimeout) {
-      clearTimeout(this.submitTimeout);
-      this.submitTimeout = null;
-    }
-  }
-}
-
-// Transaction queue with retry mechanism
-export class TransactionQueue {
-  private queue: QueuedTransaction[] = [];
-  private processingTimer: NodeJS.Timeout | null = null;
-  private isProcessing = false;
-  private batchingTimer: NodeJS.Timeout | null = null;
-  private pendingBatch: QueuedTransaction[] = [];
-  private readonly batchDelay = 2000; // 2 seconds to batch transactions
-  private readonly maxBatchSize = 5; // Max transactions per batch
-  
-  constructor() {
-    this.startProcessing();
-  }
-
-  // Add transaction to queue with retry logic and batching
-  enqueue(
-    playerAddress: string,
-    scoreAmount: number,
-    transactionAmount: number = 1,
-    callbacks?: {
-      onSuccess?: (result: ScoreSubmissionResponse) => void;
-      onFailure?: (error: string) => void;
-      onRetry?: (attempt: number) => void;
-    }
-  ): string {
-    const id = `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const transaction: QueuedTransaction = {
-      id,
-      playerAddress,
-      scoreAmount,
-      transactionAmount,
-      attempts: 0,
-      maxAttempts: 5, // Increased for priority conflicts
-      nextRetryAt: Date.now(),
-      onSuccess: callbacks?.onSuccess,
-      onFailure: callbacks?.onFailure,
-      onRetry: callbacks?.onRetry,
-    };
-
-    // Add to pending batch first
-    this.addToBatch(transaction);
-    return id;
-  }
-
-  // Add transaction to batch for optimization
-  private addToBatch(transaction: QueuedTransaction) {
-    this.pendingBatch.push(transaction);
-    
-    // If batch is full, process immediately
-    if (this.pendingBatch.length >= this.maxBatchSize) {
-      this.flushBatch();
-    } else {
-      // Schedule batch flush
-      this.scheduleBatchFlush();
-    }
-  }
-
-  // Schedule batch to be processed
-  private scheduleBatchFlush() {
-    if (this.batchingTimer) {
-      clearTimeout(this.batchingTimer);
-    }
-    
-    this.batchingTimer = setTimeout(() => {
-      this.flushBatch();
-    }, this.batchDelay);
-  }
-
-  // Move batched transactions to main queue
-  private flushBatch() {
-    if (this.batchingTimer) {
-      clearTimeout(this.batchingTimer);
-      this.batchingTimer = null;
-    }
-    
-    if (this.pendingBatch.length === 0) return;
-    
-    // For same player, combine into single transaction to reduce nonce conflicts
-    const batchByPlayer = new Map<string, QueuedTransaction[]>();
-    
-    this.pendingBatch.forEach(tx => {
-      if (!batchByPlayer.has(tx.playerAddress)) {
-        batchByPlayer.set(tx.playerAddress, []);
-      }
-      batchByPlayer.get(tx.playerAddress)!.push(tx);
-    });
-    
-    // Create combined transactions per player
-    batchByPlayer.forEach((transactions, playerAddress) => {
-      if (transactions.length === 1) {
-        // Single transaction, add as is
-        this.queue.push(transactions[0]);
-      } else {
-        // Multiple transactions for same player - combine them
-        const combinedTransaction = this.combineTransactions(transactions);
-        this.queue.push(combinedTransaction);
-      }
-    });
-    
-    this.pendingBatch = [];
-  }
-
-  // Combine multiple transactions into one to reduce blockchain congestion
-  private combineTransactions(transactions: QueuedTransaction[]): QueuedTransaction {
-    const totalScore = transactions.reduce((sum, tx) => sum + tx.scoreAmount, 0);
-    const totalTransactions = transactions.reduce((sum, tx) => sum + tx.transactionAmount, 0);
-    const allCallbacks = transactions.map(tx => ({
-      onSuccess: tx.onSuccess,
-      onFailure: tx.onFailure,
-      onRetry: tx.onRetry,
-      scoreAmount: tx.scoreAmount,
-    }));
-    
-    return {
-      id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      playerAddress: transactions[0].playerAddress,
-      scoreAmount: totalScore,
-      transactionAmount: totalTransactions,
-      attempts: 0,
-      maxAttempts: 5,
-      nextRetryAt: Date.now(),
-      onSuccess: (result) => {
-        // Call all success callbacks
-        allCallbacks.forEach(cb => {
-          if (cb.onSuccess) {
-            cb.onSuccess(result);
-          }
-        });
-      },
-      onFailure: (error) => {
-        // Call all failure callbacks
-        allCallbacks.forEach(cb => {
-          if (cb.onFailure) {
-            cb.onFailure(error);
-          }
-        });
-      },
-      onRetry: (attempt) => {
-        // Call all retry callbacks
-        allCallbacks.forEach(cb => {
-          if (cb.onRetry) {
-            cb.onRetry(attempt);
-          }
-        });
-      },
-    };
-  }
-
-  // Start processing queue
-  private startProcessing() {
-    if (this.processingTimer) return;
-    
-    this.processingTimer = setInterval(() => {
-      this.processQueue();
-    }, 1000); // Check every second
-  }
-
-  // Process transactions in queue
-  private async processQueue() {
-    if (this.isProcessing || this.queue.length === 0) return;
-    
-    this.isProcessing = true;
-    const now = Date.now();
-    
-    // Find transactions ready for processing
-    const readyTransactions = this.queue.filter(tx => tx.nextRetryAt <= now);
-    
-    for (const transaction of readyTransactions) {
-      try {
-        transaction.attempts++;
-        
-        // Call retry callback
-        if (transaction.onRetry && transaction.attempts > 1) {
-          transaction.onRetry(transaction.attempts);
-        }
-
-        const result = await submitPlayerScore(
-          transaction.playerAddress,
-          transaction.scoreAmount,
-          transaction.transactionAmount
-        );
-
-        if (result.success) {
-          // Success - remove from queue
-          this.removeTransaction(transaction.id);
-          
-          // Log testnet explorer link
-          if (result.transactionHash) {
-            console.log(`Transaction confirmed: https://testnet.monadscan.com/tx/${result.transactionHash}`);
-          }
-          
-          if (transaction.onSuccess) {
-            transaction.onSuccess(result);
-          }
-        } else {
-          // Failed - check if we should retry
-          const isPriorityError = result.error?.includes('Another transaction has higher priority') || 
-                                  result.error?.includes('higher priority');
-          
-          if (transaction.attempts >= transaction.maxAttempts) {
-            // Max attempts reached - remove from queue
-            this.removeTransaction(transaction.id);
-            if (transaction.onFailure) {
-              transaction.onFailure(result.error || 'Max retry attempts reached');
-            }
-          } else {
-            // Schedule retry with different backoff for priority errors
-            let backoffDelay;
-            if (isPriorityError) {
-              // For priority conflicts, use longer delays with more randomness
-              backoffDelay = Math.min(
-                3000 + Math.random() * 5000 + (1000 * transaction.attempts), 
-                60000
-              ); // 3-8s + attempt penalty, cap at 60s
-            } else {
-              // Regular exponential backoff for other errors
-              backoffDelay = Math.min(1000 * Math.pow(2, transaction.attempts - 1), 30000);
-            }
-            
-            transaction.nextRetryAt = now + backoffDelay;
-          }
-        }
-      } catch (error) {
-        // Unexpected error - handle same as failure
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        const isPriorityError = errorMessage.includes('Another transaction has higher priority') || 
-                                errorMessage.includes('higher priority');
-        
-        if (transaction.attempts >= transaction.maxAttempts) {
-          this.removeTransaction(transaction.id);
-          if (transaction.onFailure) {
-            transaction.onFailure(errorMessage);
-          }
-        } else {
-          let backoffDelay;
-          if (isPriorityError) {
-            // For priority conflicts, use longer delays with more randomness
-            backoffDelay = Math.min(
-              3000 + Math.random() * 5000 + (1000 * transaction.attempts), 
-              60000
-            ); // 3-8s + attempt penalty, cap at 60s
-          } else {
-            // Regular exponential backoff for other errors
-            backoffDelay = Math.min(1000 * Math.pow(2, transaction.attempts - 1), 30000);
-          }
-          
-          transaction.nextRetryAt = now + backoffDelay;
-        }
-      }
-    }
-    
-    this.isProcessing = false;
-  }
-
-  // Remove transaction from queue
-  private removeTransaction(id: string) {
-    this.queue = this.queue.filter(tx => tx.id !== id);
-  }
-
-  // Get queue status
-  getQueueStatus() {
-    return {
-      pending: this.queue.length,
-      transactions: this.queue.map(tx => ({
-        id: tx.id,
-        attempts: tx.attempts,
-        maxAttempts: tx.maxAttempts,
-        scoreAmount: tx.scoreAmount,
-        nextRetryAt: tx.nextRetryAt,
-      })),
-    };
-  }
-
-  // Clean up
-  destroy() {
-    if (this.processingTimer) {
-      clearInterval(this.processingTimer);
-      this.processingTimer = null;
-    }
-    if (this.batchingTimer) {
-      clearTimeout(this.batchingTimer);
-      this.batchingTimer = null;
-    }
-    // Flush any pending batch before destroying
-    this.flushBatch();
-    this.queue = [];
-    this.pendingBatch = [];
-  }
-}
\ No newline at end of file
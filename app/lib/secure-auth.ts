@@ -1,6 +1,25 @@
 // Utility for secure wallet authentication with session management
 
-import { getNonce, getSessionToken, startGameSession, submitGameAction, endGameSession, submitGameSession } from './score-api';
+import {
+  getNonce,
+  getSessionToken,
+  refreshSessionToken,
+  startGameSession,
+  submitGameActions,
+  endGameSession,
+  submitGameSession,
+  getGameSpawns,
+  getTransactionStatus,
+  requestVersusTicket,
+  GameSessionStats,
+  GameActionType,
+} from './score-api';
+import type { Achievement } from './achievements';
+import type { DailyRun } from './daily-challenge';
+import type { VersusOutcome } from './game-session';
+import { Difficulty } from './game/difficulty';
+import { RunRecording } from './game/input-log';
+import { SpawnToken } from './game/spawns';
 
 interface AuthSession {
   playerAddress: string;
@@ -9,8 +28,45 @@ interface AuthSession {
   expiresAt: number;
 }
 
+export type SubmissionStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
+
+export interface CompletedGameSession {
+  gameSessionId: string;
+  finalScore: number;
+  stats?: GameSessionStats;
+  endedAt: number;
+  status: SubmissionStatus;
+  transactionHash?: string;
+  error?: string;
+}
+
+const CONFIRMATION_POLL_INTERVAL_MS = 2000;
+const CONFIRMATION_MAX_POLLS = 30; // Give up watching after about a minute
+
+// Matches the server's MAX_ACTIONS_PER_REQUEST for a solo run
+const MAX_ACTIONS_PER_REQUEST = 60;
+
+type ActionResult = { success: boolean; currentScore?: number; error?: string };
+
+interface PendingAction {
+  action: { type: GameActionType; data?: Record<string, unknown> };
+  resolve: (result: ActionResult) => void;
+}
+
+// Session tokens last 5 minutes but runs can go on for 30; renew a token once it gets this close
+// to expiring, checking at least this often while a game session is open
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+const TOKEN_KEEPALIVE_MS = 30 * 1000;
+
 export class SecureGameAuth {
   private session: AuthSession | null = null;
+  private completedSessions = new Map<string, CompletedGameSession>();
+  private listeners = new Set<(sessions: CompletedGameSession[]) => void>();
+  private pendingActions: PendingAction[] = [];
+  private actionFlush: Promise<void> | null = null;
+  private signMessage: ((message: string) => Promise<string>) | null = null;
+  private renewal: Promise<boolean> | null = null;
+  private keepalive: ReturnType<typeof setInterval> | null = null;
 
   // Step 1: Authenticate wallet with signature (one-time per session)
   async authenticateWallet(
@@ -33,10 +89,16 @@ export class SecureGameAuth {
         return { success: false, error: 'Failed to authenticate signature' };
       }
 
-      // Store session
+      // Store session, keeping any running game so it can still be ended after re-authentication
+      this.signMessage = signMessage;
+      const gameSessionId = this.session?.playerAddress === playerAddress
+        ? this.session.gameSessionId
+        : undefined;
+
       this.session = {
         playerAddress,
         sessionToken,
+        gameSessionId,
         expiresAt: Date.now() + 5 * 60 * 1000, // 5 minutes
       };
 
@@ -47,17 +109,36 @@ export class SecureGameAuth {
     }
   }
 
-  // Step 2: Start a secure game session
-  async startGame(): Promise<{ success: boolean; gameSessionId?: string; error?: string }> {
+  // Step 2: Start a secure game session (a free play run, today's daily challenge, or a
+  // versus race the relay paired the player into)
+  async startGame(difficulty: Difficulty, daily = false, players = 1, matchToken?: string): Promise<{
+    success: boolean;
+    gameSessionId?: string;
+    difficulty?: Difficulty;
+    daily?: DailyRun | null;
+    players?: number;
+    versus?: string | null;
+    spawns?: SpawnToken[];
+    spawnHorizon?: number;
+    error?: string;
+  }> {
     if (!this.session || Date.now() > this.session.expiresAt) {
       return { success: false, error: 'Authentication expired. Please authenticate again.' };
     }
 
     try {
-      const result = await startGameSession(this.session.playerAddress, this.session.sessionToken);
+      const result = await startGameSession(
+        this.session.playerAddress,
+        this.session.sessionToken,
+        difficulty,
+        daily,
+        players,
+        matchToken
+      );
       
       if (result.success && result.gameSessionId) {
         this.session.gameSessionId = result.gameSessionId;
+        this.startKeepalive();
       }
 
       return result;
@@ -67,44 +148,136 @@ export class SecureGameAuth {
     }
   }
 
+  // Get a ticket for the versus matchmaking queue, proving to the relay that this wallet signed in
+  async requestVersusTicket(difficulty: Difficulty): Promise<{ success: boolean; ticket?: string; error?: string }> {
+    if (!this.session || Date.now() > this.session.expiresAt) {
+      return { success: false, error: 'Authentication expired. Please authenticate again.' };
+    }
+
+    try {
+      return await requestVersusTicket(this.session.playerAddress, this.session.sessionToken, difficulty);
+    } catch (error) {
+      console.error('Versus ticket error:', error);
+      return { success: false, error: 'Failed to request versus ticket' };
+    }
+  }
+
+  // Fetch more server-decided spawns as the game approaches the end of the known ones
+  async requestSpawns(
+    fromTick: number
+  ): Promise<{ success: boolean; spawns?: SpawnToken[]; spawnHorizon?: number; error?: string }> {
+    if (!this.session || !this.session.gameSessionId) {
+      return { success: false, error: 'No active game session' };
+    }
+
+    const { playerAddress, gameSessionId } = this.session;
+    try {
+      return await this.withFreshToken(sessionToken =>
+        getGameSpawns(playerAddress, gameSessionId, sessionToken, fromTick)
+      );
+    } catch (error) {
+      console.error('Spawn request error:', error);
+      return { success: false, error: 'Failed to get spawns' };
+    }
+  }
+
   // Step 3: Submit game actions for server validation
-  async submitAction(
-    actionType: 'shot_fired' | 'enemy_killed',
+  // One request is in flight at a time and everything reported meanwhile goes out together in
+  // the next, so actions reach the server in order without queueing up behind slow replies
+  submitAction(
+    actionType: GameActionType,
     actionData?: Record<string, unknown>
-  ): Promise<{ success: boolean; currentScore?: number; error?: string }> {
+  ): Promise<ActionResult> {
+    return new Promise(resolve => {
+      this.pendingActions.push({ action: { type: actionType, data: actionData }, resolve });
+      this.flushActions();
+    });
+  }
+
+  private flushActions(): void {
+    if (this.actionFlush) {
+      return;
+    }
+
+    this.actionFlush = this.sendActions().finally(() => {
+      this.actionFlush = null;
+      if (this.pendingActions.length > 0) {
+        this.flushActions();
+      }
+    });
+  }
+
+  private async sendActions(): Promise<void> {
+    const batch = this.pendingActions.splice(0, MAX_ACTIONS_PER_REQUEST);
+    const results = await this.postActions(batch.map(pending => pending.action));
+    batch.forEach((pending, index) => pending.resolve(results[index]));
+  }
+
+  private async postActions(actions: PendingAction['action'][]): Promise<ActionResult[]> {
+    const fail = (error: string) => actions.map(() => ({ success: false, error }));
+
     if (!this.session || !this.session.gameSessionId) {
-      return { success: false, error: 'No active game session' };
+      return fail('No active game session');
     }
 
+    const { playerAddress, gameSessionId } = this.session;
     try {
-      return await submitGameAction(
-        this.session.playerAddress,
-        this.session.gameSessionId,
-        this.session.sessionToken,
-        { type: actionType, data: actionData }
+      // Actions wait here in order while the token is renewed, rather than being dropped
+      const result = await this.withFreshToken(sessionToken =>
+        submitGameActions(playerAddress, gameSessionId, sessionToken, actions)
       );
+      if (!result.success || !result.results) {
+        return fail(result.error || 'Failed to submit actions');
+      }
+
+      return result.results.map(({ valid, error }) => ({ success: valid, currentScore: result.currentScore, error }));
     } catch (error) {
       console.error('Action submission error:', error);
-      return { success: false, error: 'Failed to submit action' };
+      return fail('Failed to submit action');
     }
   }
 
-  // Step 4: End game and get final validated score
-  async endGame(): Promise<{ success: boolean; finalScore?: number; stats?: unknown; error?: string }> {
+  // Step 4: End game and get the final score validated by server-side replay
+  async endGame(recording: RunRecording): Promise<{
+    success: boolean;
+    finalScore?: number;
+    spawnSeed?: number;
+    stats?: GameSessionStats;
+    dailyRank?: number | null;
+    versus?: VersusOutcome | null;
+    achievements?: Achievement[];
+    error?: string;
+  }> {
     if (!this.session || !this.session.gameSessionId) {
       return { success: false, error: 'No active game session' };
     }
 
+    const gameSessionId = this.session.gameSessionId;
+
     try {
-      const result = await endGameSession(
-        this.session.playerAddress,
-        this.session.gameSessionId,
-        this.session.sessionToken
+      // Let reported actions reach the server before the session closes
+      while (this.actionFlush) {
+        await this.actionFlush;
+      }
+
+      const playerAddress = this.session.playerAddress;
+      const result = await this.withFreshToken(sessionToken =>
+        endGameSession(playerAddress, gameSessionId, sessionToken, recording)
       );
 
-      // Clear game session ID after ending
-      if (result.success) {
+      // Clear game session ID after ending and remember it for submission
+      if (result.success && this.session) {
         this.session.gameSessionId = undefined;
+        this.stopKeepalive();
+
+        this.completedSessions.set(gameSessionId, {
+          gameSessionId,
+          finalScore: result.finalScore ?? 0,
+          stats: result.stats,
+          endedAt: Date.now(),
+          status: 'pending',
+        });
+        this.notifyListeners();
       }
 
       return result;
@@ -114,27 +287,195 @@ export class SecureGameAuth {
     }
   }
 
-  // Step 5: Submit final score to blockchain
-  async submitToBlockchain(): Promise<{ success: boolean; transactionHash?: string; error?: string }> {
+  // Step 5: Submit a completed game session to the blockchain (defaults to the latest unsubmitted one)
+  async submitToBlockchain(
+    gameSessionId?: string
+  ): Promise<{ success: boolean; transactionHash?: string; error?: string }> {
     if (!this.session) {
       return { success: false, error: 'No active session' };
     }
 
-    if (this.session.gameSessionId) {
-      return { success: false, error: 'Game session still active. End the game first.' };
+    const completed = gameSessionId
+      ? this.completedSessions.get(gameSessionId)
+      : this.getCompletedSessions().find(s => s.status === 'pending' || s.status === 'failed');
+
+    if (!completed) {
+      return { success: false, error: 'No completed game session to submit' };
+    }
+
+    if (completed.status === 'submitted' || completed.status === 'confirmed') {
+      return { success: true, transactionHash: completed.transactionHash };
+    }
+
+    if (Date.now() > this.session.expiresAt) {
+      return { success: false, error: 'Authentication expired. Please authenticate again.' };
     }
 
+    this.updateCompletedSession(completed.gameSessionId, { status: 'pending', error: undefined });
+
     try {
-      // This would submit the last completed game session
-      // For now, we'll need the game session ID from the last ended game
-      // In a production system, you'd track this properly
-      return { success: false, error: 'Implementation pending - need game session tracking' };
+      const result = await submitGameSession(
+        this.session.playerAddress,
+        completed.gameSessionId,
+        this.session.sessionToken
+      );
+
+      if (result.success) {
+        this.updateCompletedSession(completed.gameSessionId, {
+          status: 'submitted',
+          transactionHash: result.transactionHash,
+        });
+
+        if (result.transactionHash) {
+          this.watchConfirmation(completed.gameSessionId, result.transactionHash);
+        }
+      } else {
+        this.updateCompletedSession(completed.gameSessionId, { status: 'failed', error: result.error });
+      }
+
+      return result;
     } catch (error) {
       console.error('Blockchain submission error:', error);
+      this.updateCompletedSession(completed.gameSessionId, {
+        status: 'failed',
+        error: 'Failed to submit to blockchain',
+      });
       return { success: false, error: 'Failed to submit to blockchain' };
     }
   }
 
+  // Resubmit a session whose submission failed, without replaying the game
+  async retrySubmission(
+    gameSessionId: string
+  ): Promise<{ success: boolean; transactionHash?: string; error?: string }> {
+    const completed = this.completedSessions.get(gameSessionId);
+
+    if (!completed) {
+      return { success: false, error: 'Unknown game session' };
+    }
+
+    if (completed.status !== 'failed') {
+      return { success: false, error: `Game session is already ${completed.status}` };
+    }
+
+    return this.submitToBlockchain(gameSessionId);
+  }
+
+  // Renew the session token if it is close to expiring. While a game session is open the server
+  // renews a valid token; otherwise, or once it has lapsed (say after a long pause), the wallet
+  // signs in again, unless this is the background keepalive, which never prompts the player.
+  private renewToken(force = false, signIn = true): Promise<boolean> {
+    const session = this.session;
+    if (!session) {
+      return Promise.resolve(false);
+    }
+    if (!force && session.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+      return Promise.resolve(true);
+    }
+
+    if (!this.renewal) {
+      this.renewal = this.renew(session, signIn).finally(() => {
+        this.renewal = null;
+      });
+    }
+    return this.renewal;
+  }
+
+  private async renew(session: AuthSession, signIn: boolean): Promise<boolean> {
+    if (session.gameSessionId && Date.now() < session.expiresAt) {
+      const refreshed = await refreshSessionToken(session.playerAddress, session.sessionToken);
+      if (refreshed && this.session === session) {
+        session.sessionToken = refreshed.sessionToken;
+        session.expiresAt = refreshed.expiresAt;
+        return true;
+      }
+    }
+
+    if (!signIn || !this.signMessage) {
+      return false;
+    }
+    const result = await this.authenticateWallet(session.playerAddress, this.signMessage);
+    return result.success;
+  }
+
+  // Make a call with a fresh token, renewing and trying once more if the server turns it down
+  private async withFreshToken<T extends { success: boolean; error?: string }>(
+    call: (sessionToken: string) => Promise<T>
+  ): Promise<T> {
+    await this.renewToken();
+    const result = await call(this.session?.sessionToken ?? '');
+    if (result.success || !result.error?.startsWith('Unauthorized')) {
+      return result;
+    }
+
+    if (!(await this.renewToken(true))) {
+      return result;
+    }
+    return call(this.session?.sessionToken ?? '');
+  }
+
+  private startKeepalive(): void {
+    this.stopKeepalive();
+    this.keepalive = setInterval(() => {
+      this.renewToken(false, false);
+    }, TOKEN_KEEPALIVE_MS);
+  }
+
+  private stopKeepalive(): void {
+    if (this.keepalive) {
+      clearInterval(this.keepalive);
+      this.keepalive = null;
+    }
+  }
+
+  // Completed game sessions, most recent first
+  getCompletedSessions(): CompletedGameSession[] {
+    return Array.from(this.completedSessions.values()).sort((a, b) => b.endedAt - a.endedAt);
+  }
+
+  // Listen for submission status changes; returns an unsubscribe function
+  subscribe(listener: (sessions: CompletedGameSession[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private updateCompletedSession(gameSessionId: string, update: Partial<CompletedGameSession>): void {
+    const completed = this.completedSessions.get(gameSessionId);
+    if (!completed) return;
+
+    this.completedSessions.set(gameSessionId, { ...completed, ...update });
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    const sessions = this.getCompletedSessions();
+    this.listeners.forEach(listener => listener(sessions));
+  }
+
+  // Poll the chain until the submission is mined or reverted
+  private async watchConfirmation(gameSessionId: string, transactionHash: string): Promise<void> {
+    for (let poll = 0; poll < CONFIRMATION_MAX_POLLS; poll++) {
+      await new Promise(resolve => setTimeout(resolve, CONFIRMATION_POLL_INTERVAL_MS));
+
+      const completed = this.completedSessions.get(gameSessionId);
+      if (!completed || completed.transactionHash !== transactionHash) {
+        return;
+      }
+
+      const status = await getTransactionStatus(transactionHash);
+      if (status === 'confirmed') {
+        this.updateCompletedSession(gameSessionId, { status: 'confirmed' });
+        return;
+      }
+      if (status === 'failed') {
+        this.updateCompletedSession(gameSessionId, { status: 'failed', error: 'Transaction reverted' });
+        return;
+      }
+    }
+  }
+
   // Get current session status
   getSessionStatus(): {
     authenticated: boolean;
@@ -148,9 +489,10 @@ export class SecureGameAuth {
 
     const isExpired = Date.now() > this.session.expiresAt;
     
+    // A game stays active past its token's expiry; the token is renewed on the next call
     return {
       authenticated: !isExpired,
-      gameActive: !!this.session.gameSessionId && !isExpired,
+      gameActive: !!this.session.gameSessionId,
       playerAddress: this.session.playerAddress,
       expiresAt: this.session.expiresAt,
     };
@@ -158,7 +500,11 @@ export class SecureGameAuth {
 
   // Clear session
   logout(): void {
+    this.stopKeepalive();
     this.session = null;
+    this.signMessage = null;
+    this.completedSessions.clear();
+    this.notifyListeners();
   }
 }
 
@@ -0,0 +1,113 @@
+// Browser side of the versus relay (server/versus-relay.mjs): joins the matchmaking queue and
+// swaps live progress with the opponent during a race. Nothing sent through here counts
+// towards the result; the game server decides the winner from the replayed runs.
+
+import { Difficulty } from './game/difficulty';
+
+export const VERSUS_RELAY_URL = process.env.NEXT_PUBLIC_VERSUS_RELAY_URL || 'ws://localhost:3001';
+
+// How often live progress is sent to the opponent
+export const VERSUS_STATE_INTERVAL_TICKS = 6;
+
+export interface VersusLobby {
+  waiting: Partial<Record<Difficulty, number>>; // Players queued for each mode
+  online: number;
+}
+
+// The live progress players swap during a race
+export interface VersusProgress {
+  tick: number;
+  score: number;
+  x: number; // Ship position, for drawing the opponent's ghost
+  lives: number;
+  over: boolean;
+}
+
+export interface VersusMatchInfo {
+  matchId: string;
+  matchToken: string;
+  difficulty: Difficulty;
+  opponent: string;
+}
+
+export type VersusRelayMessage =
+  | ({ type: 'lobby' } & VersusLobby)
+  | { type: 'queued'; difficulty: Difficulty }
+  | ({ type: 'matched' } & VersusMatchInfo)
+  | ({ type: 'opponent_state' } & VersusProgress)
+  | { type: 'opponent_left' }
+  | { type: 'error'; error: string };
+
+export class VersusClient {
+  private socket: WebSocket | null = null;
+  private handlers: Array<(message: VersusRelayMessage) => void> = [];
+
+  // Open the connection if it isn't already; resolves false if the relay can't be reached
+  connect(): Promise<boolean> {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      return Promise.resolve(true);
+    }
+
+    this.socket?.close();
+    const socket = new WebSocket(VERSUS_RELAY_URL);
+    this.socket = socket;
+
+    socket.onmessage = event => {
+      let message: VersusRelayMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      for (const handler of this.handlers) {
+        handler(message);
+      }
+    };
+
+    return new Promise(resolve => {
+      socket.onopen = () => resolve(true);
+      socket.onerror = () => resolve(false);
+      socket.onclose = () => {
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+        resolve(false);
+      };
+    });
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  // Subscribe to messages from the relay; returns an unsubscribe function
+  onMessage(handler: (message: VersusRelayMessage) => void): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter(existing => existing !== handler);
+    };
+  }
+
+  join(ticket: string): void {
+    this.send({ type: 'join', ticket });
+  }
+
+  leave(): void {
+    this.send({ type: 'leave' });
+  }
+
+  sendProgress(progress: VersusProgress): void {
+    this.send({ type: 'state', ...progress });
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
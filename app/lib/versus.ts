@@ -0,0 +1,89 @@
+// Head-to-head versus: two players race the same seeds at the same time. Matchmaking runs in
+// the relay (server/versus-relay.mjs), a separate Node process that shares API_SECRET with
+// this server. Players get a signed ticket here to join its queue, and the relay hands each
+// pair a signed match token that starting a game session accepts.
+// Tokens are base64url(JSON payload) + '.' + hex HMAC-SHA256 of that; the relay signs and
+// checks them the same way.
+
+import crypto from 'crypto';
+import { Difficulty, isDifficulty } from './game/difficulty';
+
+const VERSUS_SECRET = process.env.API_SECRET;
+
+if (!VERSUS_SECRET) {
+  throw new Error('API_SECRET environment variable is required');
+}
+
+const TICKET_TTL_MS = 2 * 60 * 1000; // Time to connect to the relay and join its queue
+
+// A pairing made by the relay; its players race each other once both start their sessions
+export interface VersusPairing {
+  matchId: string;
+  players: [string, string];
+  difficulty: Difficulty;
+  expiresAt: number; // Sessions can no longer be started for the match after this
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', VERSUS_SECRET as string).update(data).digest('hex');
+}
+
+function verify(token: unknown, kind: 'ticket' | 'match'): Record<string, unknown> | null {
+  if (typeof token !== 'string') {
+    return null;
+  }
+
+  const [data, signature] = token.split('.');
+  if (!data || !signature || !/^[0-9a-f]{64}$/.test(signature)) {
+    return null;
+  }
+
+  if (!crypto.timingSafeEqual(Buffer.from(sign(data), 'hex'), Buffer.from(signature, 'hex'))) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    return payload && payload.kind === kind ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// Proof for the relay that the player signed in with their wallet and picked a mode
+export function createVersusTicket(playerAddress: string, difficulty: Difficulty): string {
+  const data = Buffer.from(JSON.stringify({
+    kind: 'ticket',
+    playerAddress,
+    difficulty,
+    expiresAt: Date.now() + TICKET_TTL_MS,
+  })).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+export function verifyMatchToken(token: unknown): { valid: boolean; pairing?: VersusPairing; error?: string } {
+  const payload = verify(token, 'match');
+  if (!payload) {
+    return { valid: false, error: 'Invalid match token' };
+  }
+
+  const { matchId, players, difficulty, expiresAt } = payload;
+  if (typeof matchId !== 'string' ||
+      !Array.isArray(players) || players.length !== 2 || !players.every(player => typeof player === 'string') ||
+      !isDifficulty(difficulty) ||
+      typeof expiresAt !== 'number') {
+    return { valid: false, error: 'Invalid match token' };
+  }
+
+  if (Date.now() > expiresAt) {
+    return { valid: false, error: 'Match has expired' };
+  }
+
+  return { valid: true, pairing: { matchId, players: players as [string, string], difficulty, expiresAt } };
+}
+
+// Both players of a match get the same spawn seed
+export function getVersusSpawnSeed(matchId: string): number {
+  const digest = crypto.createHmac('sha256', VERSUS_SECRET as string).update(`versus:${matchId}`).digest();
+  return digest.readUInt32BE(4);
+}
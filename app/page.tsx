@@ -1,17 +1,25 @@
 "use client";
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import SpaceShooterGame from './components/SpaceShooterGame';
 import AuthComponent from './components/AuthComponent';
 import ScoreDebugger from './components/ScoreDebugger';
 
+type SignMessage = (message: string) => Promise<string>;
+
 export default function Home() {
   const [playerAddress, setPlayerAddress] = useState<string>("");
+  const [signMessage, setSignMessage] = useState<SignMessage | null>(null);
+
+  // Wrap in a function so React stores the signer instead of calling it as an updater
+  const handleSignMessageChange = useCallback((signer: SignMessage | null) => {
+    setSignMessage(() => signer);
+  }, []);
 
   return (
     <div className="min-h-screen bg-black flex flex-col items-center justify-center gap-8">
-      <AuthComponent onAddressChange={setPlayerAddress} />
-      <SpaceShooterGame playerAddress={playerAddress} />
+      <AuthComponent onAddressChange={setPlayerAddress} onSignMessageChange={handleSignMessageChange} />
+      <SpaceShooterGame playerAddress={playerAddress} signMessage={signMessage ?? undefined} />
       {playerAddress && <ScoreDebugger playerAddress={playerAddress} />}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,263 @@
+// Versus matchmaking lobby and WebSocket relay. Runs as its own Node process next to the
+// Next.js server, sharing its API_SECRET:
+//
+//   API_SECRET=... npm run relay
+//
+// Players join with a ticket from /api/versus/ticket. Two players waiting on the same mode are
+// paired and both receive a match token to start their game sessions with. During the race the
+// relay forwards each player's live score and ship position to their opponent. It decides
+// nothing about the result: the game server replays both runs and picks the winner.
+//
+// Tickets and match tokens are base64url(JSON payload) + '.' + hex HMAC-SHA256 keyed with
+// API_SECRET, the same format app/lib/versus.ts uses.
+
+import crypto from 'crypto';
+import { WebSocketServer } from 'ws';
+
+const API_SECRET = process.env.API_SECRET;
+
+if (!API_SECRET) {
+  throw new Error('API_SECRET environment variable is required');
+}
+
+const PORT = Number(process.env.VERSUS_RELAY_PORT || 3001);
+const ALLOWED_ORIGINS = [
+  'http://localhost:3000',
+  'https://localhost:3000',
+  process.env.NEXT_PUBLIC_APP_URL,
+].filter(Boolean);
+
+const MATCH_TOKEN_TTL_MS = 60 * 1000; // Time both players have to start their sessions
+const MAX_MESSAGE_BYTES = 1024;
+const MAX_MESSAGES_PER_SECOND = 30; // Live updates are sent ten times a second
+const HEARTBEAT_MS = 30 * 1000;
+
+function sign(data) {
+  return crypto.createHmac('sha256', API_SECRET).update(data).digest('hex');
+}
+
+function verifyToken(token, kind) {
+  if (typeof token !== 'string') {
+    return null;
+  }
+
+  const [data, signature] = token.split('.');
+  if (!data || !signature || !/^[0-9a-f]{64}$/.test(signature)) {
+    return null;
+  }
+
+  if (!crypto.timingSafeEqual(Buffer.from(sign(data), 'hex'), Buffer.from(signature, 'hex'))) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    return payload && payload.kind === kind ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function createMatchToken(matchId, players, difficulty) {
+  const data = Buffer.from(JSON.stringify({
+    kind: 'match',
+    matchId,
+    players,
+    difficulty,
+    expiresAt: Date.now() + MATCH_TOKEN_TTL_MS,
+  })).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+// Every connection, and the players waiting for an opponent in each mode
+const clients = new Set();
+const queues = new Map();
+
+function send(client, message) {
+  if (client.ws.readyState === client.ws.OPEN) {
+    client.ws.send(JSON.stringify(message));
+  }
+}
+
+function broadcastLobby() {
+  const waiting = Object.fromEntries(Array.from(queues, ([difficulty, queue]) => [difficulty, queue.length]));
+  const online = Array.from(clients).filter(client => client.playerAddress).length;
+  for (const client of clients) {
+    send(client, { type: 'lobby', waiting, online });
+  }
+}
+
+function removeFromQueue(client) {
+  const queue = queues.get(client.difficulty);
+  if (queue) {
+    queues.set(client.difficulty, queue.filter(waiting => waiting !== client));
+  }
+}
+
+// Leave the queue or the current match, telling the opponent
+function leave(client) {
+  removeFromQueue(client);
+  if (client.opponent) {
+    send(client.opponent, { type: 'opponent_left' });
+    client.opponent.opponent = null;
+    client.opponent = null;
+  }
+}
+
+function join(client, ticket) {
+  const payload = verifyToken(ticket, 'ticket');
+  if (!payload || typeof payload.playerAddress !== 'string' || typeof payload.difficulty !== 'string') {
+    send(client, { type: 'error', error: 'Invalid ticket' });
+    return;
+  }
+
+  if (Date.now() > payload.expiresAt) {
+    send(client, { type: 'error', error: 'Ticket has expired' });
+    return;
+  }
+
+  // One place in the lobby per wallet; joining from another window takes it over
+  const key = payload.playerAddress.toLowerCase();
+  for (const other of clients) {
+    if (other !== client && other.playerAddress?.toLowerCase() === key) {
+      leave(other);
+      send(other, { type: 'error', error: 'Joined from another window' });
+      other.playerAddress = null;
+    }
+  }
+
+  leave(client);
+  client.playerAddress = payload.playerAddress;
+  client.difficulty = payload.difficulty;
+
+  const queue = queues.get(client.difficulty) ?? [];
+  const opponent = queue.shift();
+  if (!opponent) {
+    queues.set(client.difficulty, [...queue, client]);
+    send(client, { type: 'queued', difficulty: client.difficulty });
+    broadcastLobby();
+    return;
+  }
+
+  queues.set(client.difficulty, queue);
+  client.opponent = opponent;
+  opponent.opponent = client;
+
+  const matchId = crypto.randomUUID();
+  const players = [opponent.playerAddress, client.playerAddress];
+  const matchToken = createMatchToken(matchId, players, client.difficulty);
+  for (const player of [client, opponent]) {
+    send(player, {
+      type: 'matched',
+      matchId,
+      matchToken,
+      difficulty: client.difficulty,
+      opponent: player.opponent.playerAddress,
+    });
+  }
+  broadcastLobby();
+}
+
+// Pass a player's live progress on to their opponent, keeping only the known fields
+function relayState(client, message) {
+  if (!client.opponent) {
+    return;
+  }
+
+  const { tick, score, x, lives, over } = message;
+  if (![tick, score, x, lives].every(Number.isFinite) || typeof over !== 'boolean') {
+    return;
+  }
+
+  send(client.opponent, { type: 'opponent_state', tick, score, x, lives, over });
+}
+
+function handleMessage(client, raw) {
+  // A simple per-second window keeps one client from flooding its opponent
+  const now = Date.now();
+  if (now - client.windowStart >= 1000) {
+    client.windowStart = now;
+    client.messageCount = 0;
+  }
+  if (++client.messageCount > MAX_MESSAGES_PER_SECOND) {
+    return;
+  }
+
+  let message;
+  try {
+    message = JSON.parse(raw.toString());
+  } catch {
+    send(client, { type: 'error', error: 'Malformed message' });
+    return;
+  }
+
+  switch (message?.type) {
+    case 'join':
+      join(client, message.ticket);
+      break;
+    case 'leave':
+      leave(client);
+      broadcastLobby();
+      break;
+    case 'state':
+      relayState(client, message);
+      break;
+    default:
+      send(client, { type: 'error', error: 'Unknown message type' });
+  }
+}
+
+const server = new WebSocketServer({
+  port: PORT,
+  maxPayload: MAX_MESSAGE_BYTES,
+  verifyClient: ({ origin }) => ALLOWED_ORIGINS.includes(origin),
+});
+
+server.on('connection', ws => {
+  const client = {
+    ws,
+    playerAddress: null,
+    difficulty: null,
+    opponent: null,
+    alive: true,
+    windowStart: 0,
+    messageCount: 0,
+  };
+  clients.add(client);
+
+  ws.on('message', raw => handleMessage(client, raw));
+  ws.on('pong', () => {
+    client.alive = true;
+  });
+  ws.on('close', () => {
+    leave(client);
+    clients.delete(client);
+    broadcastLobby();
+  });
+
+  broadcastLobby();
+});
+
+// Drop connections that stopped answering pings
+const heartbeat = setInterval(() => {
+  for (const client of clients) {
+    if (!client.alive) {
+      client.ws.terminate();
+      continue;
+    }
+    client.alive = false;
+    client.ws.ping();
+  }
+}, HEARTBEAT_MS);
+
+server.on('listening', () => console.log(`Versus relay listening on ws://localhost:${PORT}`));
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => {
+    clearInterval(heartbeat);
+    for (const client of clients) {
+      client.ws.terminate();
+    }
+    server.close(() => process.exit(0));
+  });
+}